@@ -15,16 +15,20 @@
  */
 
 import * as fs from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
 import {URL} from "url";
 
-import * as cheerio from "cheerio";
 import * as debug from "debug";
 import express = require("express");
-import {compile, registerHelper} from "handlebars";
+import {compile} from "handlebars";
 import {default as fetch, Request, RequestInit, Response} from "node-fetch";
 
 import ampCors from "./amp-cors.js";
 import * as validate from "./amp-story-linter";
+import {formatReport, parseOutputOptions} from "./lint-output";
+import {createFileStore, ReportStore} from "./report-store";
+import {reportView, StoryImages} from "./report-view";
 
 const log = debug("linter");
 
@@ -44,16 +48,52 @@ const PORT = (() => {
   }
 })();
 
+// Rules can be disabled or re-severitied via a config file; see
+// amp-story-linter/config.ts.
+const CONFIG = (() => {
+  const file = process.env.LINT_CONFIG || validate.findConfig(process.cwd());
+  return file ? validate.loadConfig(file, validate.RULES.map((r) => r.id)) : {};
+})();
+
+// Lint reports, so that they can be linked to; see report-store.ts.
+const STORE: ReportStore = createFileStore(process.env.REPORT_DIR || join(tmpdir(), "amp-story-reports"), {
+  maxAge: process.env.REPORT_MAX_AGE_DAYS ? Number(process.env.REPORT_MAX_AGE_DAYS) * 24 * 60 * 60 * 1000 : undefined,
+  maxReports: process.env.REPORT_MAX_COUNT ? Number(process.env.REPORT_MAX_COUNT) : undefined,
+});
+
+/** The URL of the (HTML) page that shows the stored report `id`. */
+const permalink = (id: string) => `${ORIGIN}/r/${id}`;
+
 const INDEX = (() => {
-  registerHelper("escape", (name) => {
-    return `{{${name}}}`;
-  });
   const template = compile(fs.readFileSync("index.hbs").toString());
   return template({
     canonical: ORIGIN,
   });
 })();
 
+// The (AMP) page that shows a report (see report-view.ts), or an error.
+const REPORT = compile(fs.readFileSync("report.hbs").toString());
+
+/**
+ * The poster and publisher logo of the story (for thumbnails).
+ *
+ * @param $
+ * @param base the URL of the story
+ */
+function storyImages($: CheerioStatic, base: string): StoryImages {
+  const absolute = (src: string|undefined) => {
+    try {
+      return src ? new URL(src, base).toString() : undefined;
+    } catch (e) {
+      return undefined;
+    }
+  };
+  return {
+    logo: absolute($("amp-story").attr("publisher-logo-src")),
+    poster: absolute($("amp-story").attr("poster-portrait-src")),
+  };
+}
+
 const app = express();
 
 app.use((req, res, next) => {
@@ -75,14 +115,34 @@ app.get("/", (req, res) => {
 
 app.get("/lint", async (req, res, next) => {
   const url = req.query.url;
-  if (!url) {
-    res.status(400);
-    res.setHeader("content-type", "application/json");
-    res.send(JSON.stringify({
-      message: "no [url] query string parameter provided",
-      status: "error",
-    }));
+  // Browsers (e.g. the form on the index page) get the report page, everyone
+  // else JSON.
+  const html = req.accepts(["json", "html"]) === "html";
+
+  const sendError = (status: number, message: string) => {
+    res.status(status);
+    if (html) {
+      res.setHeader("content-type", "text/html");
+      res.send(REPORT({canonical: ORIGIN, error: message}));
+    } else {
+      res.setHeader("content-type", "application/json");
+      res.send(JSON.stringify({
+        message,
+        status: "error",
+      }));
+    }
     res.end();
+  };
+
+  if (!url) {
+    sendError(400, "no [url] query string parameter provided");
+    return;
+  }
+
+  // What to include in the JSON; see lint-output.ts.
+  const options = parseOutputOptions(req.query, validate.RULES.map((r) => r.id));
+  if (typeof options === "string") {
+    sendError(400, options);
     return;
   }
 
@@ -95,40 +155,78 @@ app.get("/lint", async (req, res, next) => {
       },
     });
     if (!r.ok) {
+      sendError(200, `couldn't load [${url}]`);
+      r.text().then(console.error);
+      return;
+    }
+    const source = await r.text();
+    const $ = validate.loadSource(source);
+    const context = { $, url, headers: {}, source };
+    const data = await validate.testAll(context, CONFIG);
+    const images = storyImages($, url);
+    // The report is still returned if it can't be stored, just without a permalink.
+    const id = await STORE.put(data, images).catch((e) => {
+      console.error(e);
+      return undefined;
+    });
+    if (html && id) {
+      res.redirect(303, permalink(id));
+      return;
+    } else if (html) {
       res.status(200);
-      res.setHeader("content-type", "application/json");
-      res.send(JSON.stringify({
-        message: `couldn't load [${url}]`,
-        status: "error",
-      }));
+      res.setHeader("content-type", "text/html");
+      res.send(REPORT(Object.assign({canonical: ORIGIN}, reportView(data, images))));
       res.end();
-      r.text().then(console.error);
       return;
     }
-    const $ = cheerio.load(await r.text());
-    const context = { $, url, headers: {} };
-    const data = await validate.testAll(context) as {[key: string]: validate.Message};
     res.status(200);
-    res.setHeader("content-type", "text/json");
-    const body = (() => {
-      if (req.query.type === "summary") {
-        return Object.keys(data).filter((k) => data[k].status !== "OKAY").join(",");
-      } else {
-        return JSON.stringify(data, undefined, 2);
-      }
-    })();
-    res.send(body);
+    res.setHeader("content-type", "application/json");
+    const body = formatReport(data, options);
+    res.send(JSON.stringify(id ? Object.assign({id, permalink: permalink(id)}, body) : body, undefined, 2));
     res.end();
   } catch (e) {
     console.error(e);
-    res.status(e.code === "ENOTFOUND" ? 400 : 500); // probably caller's fault if ENOTFOUND
-    res.setHeader("content-type", "application/json");
+    sendError(e.code === "ENOTFOUND" ? 400 : 500, `couldn't load [${url}]`); // probably caller's fault if ENOTFOUND
+  }
+});
+
+app.get("/report/:id", async (req, res) => {
+  const stored = await STORE.get(req.params.id).catch((e) => {
+    console.error(e);
+    return undefined;
+  });
+  res.setHeader("content-type", "application/json");
+  if (!stored) {
+    res.status(404);
     res.send(JSON.stringify({
-      message: `couldn't load [${url}]`,
+      message: `no report [${req.params.id}]`,
       status: "error",
     }));
-    res.end();
+  } else {
+    res.status(200);
+    res.send(JSON.stringify(stored, undefined, 2));
+  }
+  res.end();
+});
+
+app.get("/r/:id", async (req, res) => {
+  const stored = await STORE.get(req.params.id).catch((e) => {
+    console.error(e);
+    return undefined;
+  });
+  if (!stored) {
+    res.status(404);
+    res.setHeader("content-type", "text/plain");
+    res.send(`no report [${req.params.id}]`);
+  } else {
+    res.status(200);
+    res.setHeader("content-type", "text/html");
+    res.send(REPORT(Object.assign(
+      {canonical: permalink(stored.id), created: stored.created, permalink: permalink(stored.id)},
+      reportView(stored.report, stored.images),
+    )));
   }
+  res.end();
 });
 
 app.listen(PORT, () => {
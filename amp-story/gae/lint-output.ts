@@ -0,0 +1,108 @@
+/**
+ * Copyright 2018 Google Inc. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS-IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {LintReport, RuleSummary, STATUS_ORDER} from "./amp-story-linter";
+
+/**
+ * The statuses of findings, least severe first (PASS is never a finding).
+ */
+const SEVERITIES = STATUS_ORDER.filter((status) => status !== "PASS");
+
+/** What `/lint` returns (as JSON); see README.md for the response schemas. */
+export type OutputType = "full"|"summary"|"counts";
+
+const TYPES: OutputType[] = ["full", "summary", "counts"];
+
+export interface OutputOptions {
+  readonly type: OutputType;
+  /**
+   * Only findings at least this severe are included (for summary, the
+   * default is WARN; otherwise, all findings are included).
+   */
+  readonly minSeverity?: string;
+  /** Only these rules are included (all, if missing). */
+  readonly rules?: string[];
+}
+
+/**
+ * Parses the `type`, `minSeverity` and `rules` query string parameters,
+ * returning an error message if any are invalid.
+ *
+ * @param query
+ * @param ruleIds the ids of all the rules
+ */
+export function parseOutputOptions(query: {[k: string]: any}, ruleIds: string[]): OutputOptions|string {
+  const type = query.type || "full";
+  if (TYPES.indexOf(type) === -1) {
+    return `unknown [type] [${type}], expected one of [${TYPES.join(", ")}]`;
+  }
+  const minSeverity = query.minSeverity;
+  if (minSeverity !== undefined && SEVERITIES.indexOf(minSeverity) === -1) {
+    return `unknown [minSeverity] [${minSeverity}], expected one of [${SEVERITIES.join(", ")}]`;
+  }
+  const rules = query.rules === undefined ?
+    undefined :
+    `${query.rules}`.split(",").map((s) => s.trim()).filter((s) => s !== "");
+  const unknown = (rules || []).filter((id) => ruleIds.indexOf(id) === -1);
+  if (unknown.length > 0) {
+    return `unknown [rules] [${unknown.join(", ")}]`;
+  }
+  return {minSeverity, rules, type};
+}
+
+const atLeast = (minSeverity: string) => (status: string) => {
+  return SEVERITIES.indexOf(status) >= SEVERITIES.indexOf(minSeverity);
+};
+
+/**
+ * The part of `report` selected by `options`, in the form given by
+ * `options.type`.
+ *
+ * @param report
+ * @param options
+ */
+export function formatReport(report: LintReport, options: OutputOptions) {
+  const {rules, type} = options;
+  const minSeverity = options.minSeverity || (type === "summary" ? "WARN" : SEVERITIES[0]);
+  const isIncluded = (id: string) => !rules || rules.indexOf(id) !== -1;
+  const ids = Object.keys(report.summary).filter(isIncluded);
+  const findings = report.findings.filter((f) => isIncluded(f.rule) && atLeast(minSeverity)(f.status));
+  switch (type) {
+    case "summary":
+      return {
+        failing: ids.filter((id) => findings.some((f) => f.rule === id)),
+        url: report.url,
+      };
+    case "counts":
+      return {
+        counts: SEVERITIES.filter(atLeast(minSeverity)).reduce((a: {[status: string]: number}, status) => {
+          a[status] = findings.filter((f) => f.status === status).length;
+          return a;
+        }, {}),
+        url: report.url,
+      };
+    default:
+      // The summary (of the status of each rule) isn't affected by minSeverity.
+      return {
+        findings,
+        summary: ids.reduce((a: {[id: string]: RuleSummary}, id) => {
+          a[id] = report.summary[id];
+          return a;
+        }, {}),
+        url: report.url,
+      };
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Copyright 2018 Google Inc. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS-IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {randomBytes} from "crypto";
+import * as fs from "fs";
+import {basename, join} from "path";
+import {promisify} from "util";
+
+import {LintReport} from "./amp-story-linter";
+import {StoryImages} from "./report-view";
+
+const readdir = promisify(fs.readdir);
+const readFile = promisify(fs.readFile);
+const stat = promisify(fs.stat);
+const unlink = promisify(fs.unlink);
+const writeFile = promisify(fs.writeFile);
+
+export interface StoredReport {
+  readonly id: string;
+  /** When the report was stored (ISO 8601). */
+  readonly created: string;
+  readonly report: LintReport;
+  readonly images?: StoryImages;
+}
+
+/**
+ * Where lint reports are kept, so that they can be linked to. Implement this
+ * to keep them somewhere other than the local filesystem (e.g. if there's
+ * more than one instance).
+ */
+export interface ReportStore {
+  /** Stores `report` (and the story's `images`), resolving to its id. */
+  put(report: LintReport, images?: StoryImages): Promise<string>;
+  /** Resolves to the report with `id`, or `undefined` if there isn't one. */
+  get(id: string): Promise<StoredReport|undefined>;
+}
+
+const ID = /^[0-9a-f]{16}$/;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface FileStoreOptions {
+  /** The most reports to keep; the oldest are removed first (default 1000). */
+  readonly maxReports?: number;
+  /** How long to keep each report, in milliseconds (default 30 days). */
+  readonly maxAge?: number;
+  /**
+   * How many reports are stored between removing old ones (default 100), since
+   * that means listing the directory.
+   */
+  readonly evictEvery?: number;
+}
+
+/**
+ * A store that keeps each report in a JSON file in `dir` (which is created if
+ * necessary). Reports older than `options.maxAge` aren't returned, and are
+ * removed (along with the oldest reports beyond `options.maxReports`) after
+ * every `options.evictEvery` reports are stored.
+ *
+ * @param dir
+ * @param options
+ */
+export function createFileStore(dir: string, options: FileStoreOptions = {}): ReportStore {
+  const {evictEvery = 100, maxAge = 30 * DAY, maxReports = 1000} = options;
+  let puts = 0;
+  const path = (id: string) => join(dir, `${id}.json`);
+  const ignoreMissing = (e: any) => {
+    if (e.code !== "ENOENT") {
+      throw e;
+    }
+  };
+  const evict = async () => {
+    const ids = (await readdir(dir)).filter((name) => name.endsWith(".json")).map((name) => basename(name, ".json"))
+      .filter((id) => ID.test(id));
+    // (Files might disappear meanwhile, if another put() is removing them.)
+    const mtimes = await Promise.all(ids.map((id) => stat(path(id)).then((s) => s.mtimeMs, ignoreMissing)));
+    const now = Date.now();
+    const expired = ids.map((id, i) => ({id, mtime: mtimes[i] || 0})).filter((f) => f.mtime > 0)
+      .sort((a, b) => b.mtime - a.mtime)
+      .filter((f, i) => i >= maxReports || now - f.mtime > maxAge);
+    await Promise.all(expired.map((f) => unlink(path(f.id)).catch(ignoreMissing)));
+  };
+  return {
+    async get(id: string) {
+      if (!ID.test(id)) {
+        return undefined;
+      }
+      try {
+        const stored = JSON.parse((await readFile(path(id))).toString()) as StoredReport;
+        return Date.now() - Date.parse(stored.created) > maxAge ? undefined : stored;
+      } catch (e) {
+        if (e.code === "ENOENT") {
+          return undefined;
+        }
+        throw e;
+      }
+    },
+    async put(report: LintReport, images: StoryImages = {}) {
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir);
+      }
+      const id = randomBytes(8).toString("hex");
+      const stored: StoredReport = {created: new Date().toISOString(), id, images, report};
+      await writeFile(path(id), JSON.stringify(stored));
+      if (++puts % evictEvery === 0) {
+        await evict();
+      }
+      return id;
+    },
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Copyright 2018 Google Inc. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS-IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Finding, LintReport, RULES, STATUS_ORDER as SEVERITIES} from "./amp-story-linter";
+
+/** The story's images (absolute URLs), shown as thumbnails. */
+export interface StoryImages {
+  readonly poster?: string;
+  readonly logo?: string;
+}
+
+// The statuses of findings, most severe first.
+const STATUS_ORDER = SEVERITIES.filter((status) => status !== "PASS").reverse();
+
+// In the order the rules are defined.
+const CATEGORIES = RULES.map((r) => r.category).filter((c, i, a) => a.indexOf(c) === i);
+
+/**
+ * Splits the curl command that reproduces a request (which some rules append
+ * to their messages as "[debug: curl ...]") from the rest of the message.
+ *
+ * @param message
+ */
+function splitCurl(message: string) {
+  const match = message.match(/^([\s\S]*?) ?\[debug: (curl [\s\S]*)\]$/);
+  return match ? {curl: match[2], text: match[1]} : {text: message};
+}
+
+function findingView(f: Finding) {
+  const rule = RULES.filter((r) => r.id === f.rule)[0];
+  const message = f.message;
+  const location = f.location || {};
+  return Object.assign(
+    {
+      code: f.code,
+      description: rule && rule.description,
+      docs: rule && rule.url,
+      line: location.line,
+      rule: f.rule,
+      selector: location.selector,
+    },
+    typeof message === "object" ? {actual: message.actual, expected: message.expected} : splitCurl(message || ""),
+  );
+}
+
+/**
+ * The data for report.hbs: the findings of `report`, grouped by category,
+ * and then by status (most severe first).
+ *
+ * @param report
+ * @param images
+ */
+export function reportView(report: LintReport, images: StoryImages = {}) {
+  const statusView = (status: string, findings: Finding[]) => ({
+    findings: findings.map(findingView),
+    status,
+    statusClass: `status-${status.toLowerCase()}`,
+  });
+  const categories = CATEGORIES
+    .map((category) => {
+      const findings = report.findings.filter((f) => f.category === category);
+      return {
+        category,
+        statuses: STATUS_ORDER
+          .map((status) => statusView(status, findings.filter((f) => f.status === status)))
+          .filter((s) => s.findings.length > 0),
+      };
+    })
+    .filter((c) => c.statuses.length > 0);
+  const ids = Object.keys(report.summary);
+  return {
+    categories,
+    counts: STATUS_ORDER
+      .map((status) => ({
+        count: report.findings.filter((f) => f.status === status).length,
+        status,
+        statusClass: `status-${status.toLowerCase()}`,
+      }))
+      .filter((c) => c.count > 0),
+    images,
+    passed: ids.filter((id) => report.summary[id].status === "PASS").length,
+    rules: ids.length,
+    url: report.url,
+  };
+}
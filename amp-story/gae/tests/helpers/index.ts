@@ -0,0 +1,17 @@
+let COUNT = 0;
+
+export function assert(testName: string, ok: boolean, diagnostic: string) {
+  COUNT++;
+  console.log(ok ? `ok ${COUNT} - ${testName}` : `not ok ${COUNT} - ${testName} [${diagnostic}]`);
+}
+
+/** Asserts that `actual` and `expected` are the same (as JSON). */
+export function assertEqual(testName: string, actual: any, expected: any) {
+  const a = JSON.stringify(actual);
+  assert(testName, a === JSON.stringify(expected), a);
+}
+
+/** Prints the TAP plan; call once all the tests have run. */
+export function plan() {
+  console.log(`1..${COUNT}`);
+}
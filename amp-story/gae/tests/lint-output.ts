@@ -0,0 +1,126 @@
+import {LintReport} from "../amp-story-linter";
+import {formatReport, OutputOptions, parseOutputOptions} from "../lint-output";
+import {assertEqual, plan} from "./helpers";
+
+const RULE_IDS = ["ampstory", "bookendcache", "contrast", "corscache", "imgalt", "videoposter"];
+
+const REPORT: LintReport = {
+  findings: [
+    {category: "accessibility", message: "<amp-img src=a.jpg> is missing alt", rule: "imgalt", status: "FAIL"},
+    {category: "media", message: "<amp-video> is missing poster", rule: "videoposter", status: "WARN"},
+    {category: "cors", message: "timed out", rule: "bookendcache", status: "ERROR"},
+    {category: "accessibility", message: "contrast is 4.4:1", rule: "contrast", status: "INFO"},
+    {category: "cors", message: "offline", rule: "corscache", status: "SKIPPED"},
+  ],
+  summary: {
+    ampstory: {findings: 0, status: "PASS"},
+    bookendcache: {findings: 1, status: "ERROR"},
+    contrast: {findings: 1, status: "INFO"},
+    corscache: {findings: 1, status: "SKIPPED"},
+    imgalt: {findings: 1, status: "FAIL"},
+    videoposter: {findings: 1, status: "WARN"},
+  },
+  url: "https://example.com/story.html",
+};
+
+function testParseDefaults() {
+  assertEqual(
+    "parseOutputOptions - full report, all findings and rules by default",
+    parseOutputOptions({}, RULE_IDS),
+    {type: "full"},
+  );
+}
+
+function testParseParams() {
+  assertEqual(
+    "parseOutputOptions - type, minSeverity and (comma-separated) rules",
+    [
+      parseOutputOptions({type: "summary"}, RULE_IDS),
+      parseOutputOptions({minSeverity: "ERROR", type: "counts"}, RULE_IDS),
+      parseOutputOptions({rules: " imgalt,videoposter,, "}, RULE_IDS),
+      parseOutputOptions({rules: ""}, RULE_IDS),
+    ],
+    [
+      {type: "summary"},
+      {minSeverity: "ERROR", type: "counts"},
+      {rules: ["imgalt", "videoposter"], type: "full"},
+      {rules: [], type: "full"},
+    ],
+  );
+}
+
+function testParseInvalid() {
+  assertEqual(
+    "parseOutputOptions - invalid parameters",
+    [
+      parseOutputOptions({type: "xml"}, RULE_IDS),
+      parseOutputOptions({minSeverity: "PASS"}, RULE_IDS),
+      parseOutputOptions({minSeverity: "warn"}, RULE_IDS),
+      parseOutputOptions({rules: "imgalt,nope,zzz"}, RULE_IDS),
+    ],
+    [
+      "unknown [type] [xml], expected one of [full, summary, counts]",
+      "unknown [minSeverity] [PASS], expected one of [SKIPPED, INFO, WARN, ERROR, FAIL]",
+      "unknown [minSeverity] [warn], expected one of [SKIPPED, INFO, WARN, ERROR, FAIL]",
+      "unknown [rules] [nope, zzz]",
+    ],
+  );
+}
+
+function testFull() {
+  assertEqual("formatReport - full", formatReport(REPORT, {type: "full"}), REPORT);
+  const options: OutputOptions = {minSeverity: "WARN", rules: ["ampstory", "contrast", "videoposter"], type: "full"};
+  assertEqual(
+    "formatReport - full, filtered by minSeverity (which doesn't affect the summary) and rules",
+    formatReport(REPORT, options),
+    {
+      findings: [REPORT.findings[1]],
+      summary: {
+        ampstory: REPORT.summary.ampstory,
+        contrast: REPORT.summary.contrast,
+        videoposter: REPORT.summary.videoposter,
+      },
+      url: REPORT.url,
+    },
+  );
+}
+
+function testSummary() {
+  assertEqual(
+    "formatReport - summary, of rules with findings at least as severe as WARN by default",
+    [
+      formatReport(REPORT, {type: "summary"}),
+      formatReport(REPORT, {minSeverity: "INFO", type: "summary"}),
+      formatReport(REPORT, {rules: ["ampstory", "imgalt"], type: "summary"}),
+    ],
+    [
+      {failing: ["bookendcache", "imgalt", "videoposter"], url: REPORT.url},
+      {failing: ["bookendcache", "contrast", "imgalt", "videoposter"], url: REPORT.url},
+      {failing: ["imgalt"], url: REPORT.url},
+    ],
+  );
+}
+
+function testCounts() {
+  assertEqual(
+    "formatReport - counts, of each status at least as severe as minSeverity",
+    [
+      formatReport(REPORT, {type: "counts"}),
+      formatReport(REPORT, {minSeverity: "WARN", type: "counts"}),
+      formatReport(REPORT, {rules: ["corscache"], type: "counts"}),
+    ],
+    [
+      {counts: {SKIPPED: 1, INFO: 1, WARN: 1, ERROR: 1, FAIL: 1}, url: REPORT.url},
+      {counts: {WARN: 1, ERROR: 1, FAIL: 1}, url: REPORT.url},
+      {counts: {SKIPPED: 1, INFO: 0, WARN: 0, ERROR: 0, FAIL: 0}, url: REPORT.url},
+    ],
+  );
+}
+
+testParseDefaults();
+testParseParams();
+testParseInvalid();
+testFull();
+testSummary();
+testCounts();
+plan();
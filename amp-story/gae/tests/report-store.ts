@@ -0,0 +1,93 @@
+import {mkdtempSync, readdirSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+
+import {LintReport} from "../amp-story-linter";
+import {createFileStore, FileStoreOptions} from "../report-store";
+import {assert, assertEqual, plan} from "./helpers";
+
+const report = (url: string): LintReport => ({findings: [], summary: {}, url});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** A store in a new temporary directory, and a function that lists the ids of the reports in it. */
+function store(options?: FileStoreOptions) {
+  const dir = join(mkdtempSync(join(tmpdir(), "amp-story-reports-")), "reports");
+  const ids = () => readdirSync(dir).map((name) => name.replace(/\.json$/, "")).sort();
+  return {ids, s: createFileStore(dir, options)};
+}
+
+/** Stores a report for each of `urls`, in turn (so that each is newer than the last). */
+async function putAll(s: ReturnType<typeof createFileStore>, urls: string[]) {
+  const ids: string[] = [];
+  for (const url of urls) {
+    ids.push(await s.put(report(url), {poster: `${url}/poster.jpg`}));
+    await sleep(10);
+  }
+  return ids;
+}
+
+async function testPutGet() {
+  const {s} = store();
+  const id = await s.put(report("https://example.com/"), {poster: "https://example.com/poster.jpg"});
+  const stored = await s.get(id);
+  assert(
+    "createFileStore - put() then get()",
+    /^[0-9a-f]{16}$/.test(id) && !!stored && stored.id === id && !isNaN(Date.parse(stored.created)) &&
+      JSON.stringify(stored.report) === JSON.stringify(report("https://example.com/")) &&
+      JSON.stringify(stored.images) === JSON.stringify({poster: "https://example.com/poster.jpg"}),
+    JSON.stringify(stored),
+  );
+}
+
+async function testUnknownIds() {
+  const {s} = store();
+  await s.put(report("https://example.com/"));
+  assertEqual(
+    "createFileStore - unknown and malformed ids",
+    await Promise.all(["0123456789abcdef", "0123456789ABCDEF", "../../etc/passwd", ""].map((id) => s.get(id))),
+    [null, null, null, null], // (undefined, as JSON)
+  );
+}
+
+async function testMaxAge() {
+  const {ids, s} = store({evictEvery: 1, maxAge: 100});
+  const [old] = await putAll(s, ["https://example.com/old"]);
+  await sleep(150);
+  const expired = await s.get(old);
+  const [recent] = await putAll(s, ["https://example.com/recent"]);
+  assert(
+    "createFileStore - reports older than maxAge aren't returned, and are removed",
+    expired === undefined && JSON.stringify(ids()) === JSON.stringify([recent]),
+    JSON.stringify({expired, ids: ids(), recent}),
+  );
+}
+
+async function testMaxReports() {
+  const {ids, s} = store({evictEvery: 1, maxReports: 2});
+  const stored = await putAll(s, ["a", "b", "c", "d"]);
+  const found = await Promise.all(stored.map((id) => s.get(id).then((r) => r && r.report.url)));
+  assertEqual("createFileStore - only the most recent maxReports are kept", found, [null, null, "c", "d"]);
+  assertEqual("createFileStore - older reports are removed", ids(), stored.slice(2).sort());
+}
+
+async function testEvictEvery() {
+  const {ids, s} = store({evictEvery: 3, maxReports: 1});
+  const stored = await putAll(s, ["a", "b"]);
+  const before = ids();
+  stored.push(...await putAll(s, ["c"]));
+  assertEqual(
+    "createFileStore - old reports are only removed every evictEvery puts",
+    [before, ids()],
+    [stored.slice(0, 2).sort(), [stored[2]]],
+  );
+}
+
+(async () => {
+  await testPutGet();
+  await testUnknownIds();
+  await testMaxAge();
+  await testMaxReports();
+  await testEvictEvery();
+  plan();
+})();
@@ -0,0 +1,128 @@
+import {readFileSync} from "fs";
+import {compile} from "handlebars";
+import {join} from "path";
+
+import {LintReport, RULES} from "../amp-story-linter";
+import {reportView} from "../report-view";
+import {assert, assertEqual, plan} from "./helpers";
+
+const CURL = "curl -i -H 'origin: https://example-com.cdn.ampproject.org' https://example.com/bookend.json";
+
+const REPORT: LintReport = {
+  findings: [
+    {category: "media", location: {line: 12, selector: "amp-video"}, message: "missing poster", rule: "videoposter",
+      status: "FAIL"},
+    {category: "cors", code: "ETIMEDOUT", message: `timed out [debug: ${CURL}]`, rule: "corscache", status: "ERROR"},
+    {category: "media", location: {line: 20}, message: "missing poster", rule: "videoposter", status: "WARN"},
+    {category: "metadata", message: {actual: "https://example.com/", expected: "https://example.com/story.html"},
+      rule: "canonical", status: "FAIL"},
+    {category: "media", message: "no poster on the second video", rule: "videoposter", status: "FAIL"},
+  ],
+  summary: {
+    ampstory: {findings: 0, status: "PASS"},
+    canonical: {findings: 1, status: "FAIL"},
+    corscache: {findings: 1, status: "ERROR"},
+    videoposter: {findings: 3, status: "FAIL"},
+  },
+  url: "https://example.com/story.html",
+};
+
+/** A finding as shown in the report: `message` is its text (and curl command), or actual and expected values. */
+function finding(id: string, message: object, f: {code?: string, line?: number, selector?: string} = {}) {
+  const r = RULES.filter((x) => x.id === id)[0];
+  const {code, line, selector} = f;
+  return {code, description: r.description, docs: r.url, line, rule: id, selector, ...message};
+}
+
+function testReportView() {
+  assertEqual(
+    "reportView - findings grouped by category (in the order of the rules), then status (most severe first)",
+    reportView(REPORT, {poster: "https://example.com/poster.jpg"}),
+    {
+      categories: [
+        {
+          category: "metadata",
+          statuses: [{
+            findings: [
+              finding("canonical", {actual: "https://example.com/", expected: "https://example.com/story.html"}),
+            ],
+            status: "FAIL",
+            statusClass: "status-fail",
+          }],
+        },
+        {
+          category: "cors",
+          statuses: [{
+            findings: [finding("corscache", {curl: CURL, text: "timed out"}, {code: "ETIMEDOUT"})],
+            status: "ERROR",
+            statusClass: "status-error",
+          }],
+        },
+        {
+          category: "media",
+          statuses: [
+            {
+              findings: [
+                finding("videoposter", {text: "missing poster"}, {line: 12, selector: "amp-video"}),
+                finding("videoposter", {text: "no poster on the second video"}),
+              ],
+              status: "FAIL",
+              statusClass: "status-fail",
+            },
+            {
+              findings: [finding("videoposter", {text: "missing poster"}, {line: 20})],
+              status: "WARN",
+              statusClass: "status-warn",
+            },
+          ],
+        },
+      ],
+      counts: [
+        {count: 3, status: "FAIL", statusClass: "status-fail"},
+        {count: 1, status: "ERROR", statusClass: "status-error"},
+        {count: 1, status: "WARN", statusClass: "status-warn"},
+      ],
+      images: {poster: "https://example.com/poster.jpg"},
+      passed: 1,
+      rules: 4,
+      url: REPORT.url,
+    },
+  );
+}
+
+function testReportViewEmpty() {
+  assertEqual(
+    "reportView - no categories or counts if there are no findings",
+    reportView({findings: [], summary: {ampstory: {findings: 0, status: "PASS"}}, url: REPORT.url}),
+    {categories: [], counts: [], images: {}, passed: 1, rules: 1, url: REPORT.url},
+  );
+}
+
+function testTemplateIsAmp() {
+  // The same validator.js as the linter, so that this doesn't need the network.
+  // tslint:disable-next-line:no-var-requires
+  const validator = require("amphtml-validator").newInstance(
+    readFileSync(join(__dirname, "../amp-story-linter/validator.js")).toString(),
+  );
+  const template = compile(readFileSync(join(__dirname, "../report.hbs")).toString());
+  const canonical = "https://example.com/";
+  const pages = [
+    template(Object.assign({canonical}, reportView(REPORT, {logo: "https://example.com/logo.png", poster: canonical}))),
+    template(Object.assign(
+      {canonical, created: new Date(0).toISOString(), permalink: "https://example.com/r/0123456789abcdef"},
+      reportView({findings: [], summary: {}, url: REPORT.url}),
+    )),
+    template({canonical, error: "couldn't load [https://example.com/story.html]"}),
+  ];
+  const errors = pages.map((html) => validator.validateString(html).errors.map((e: any) => `${e.line}: ${e.message}`));
+  assert(
+    "report.hbs - is valid AMP (for a report, an empty report and an error)",
+    errors.every((e) => e.length === 0),
+    JSON.stringify(errors),
+  );
+}
+
+testReportView();
+testReportViewEmpty();
+testTemplateIsAmp();
+plan();
@@ -0,0 +1,100 @@
+import {readFileSync} from "fs";
+import * as readline from "readline";
+
+import * as cheerio from "cheerio";
+import throat = require("throat");
+
+import {createFetcher, Fetch} from "./fetcher";
+import {LintReport} from "./index";
+
+export interface BatchReport {
+  readonly reports: LintReport[];
+  /** URLs that couldn't be linted (e.g. because they couldn't be loaded). */
+  readonly errors: Array<{url: string, message: string}>;
+  /** For each rule, the number of URLs with each summary status. */
+  readonly totals: {
+    [rule: string]: {
+      [status: string]: number;
+    };
+  };
+}
+
+function readStdin(): Promise<string> {
+  return new Promise((resolve) => {
+    const lines: string[] = [];
+    readline.createInterface({input: process.stdin})
+      .on("line", (line) => lines.push(line))
+      .on("close", () => resolve(lines.join("\n")));
+  });
+}
+
+function readSource(source: string, headers: {[key: string]: string}, fetch: Fetch): Promise<string> {
+  if (source === "-") {
+    return readStdin();
+  } else if (source.match(/^https?:/)) {
+    return fetch(source, {headers}).then(
+      r => r.ok ? r.text() : Promise.reject(new Error(`couldn't load [${source}]: ${r.statusText}`))
+    );
+  } else {
+    return Promise.resolve(readFileSync(source).toString());
+  }
+}
+
+/**
+ * Reads a list of URLs from `source`, which is "-" (stdin), a URL or a file.
+ * The list is either an XML sitemap (sitemap indexes are followed) or plain
+ * text with one URL per line; blank lines and lines starting with "#" are
+ * ignored.
+ *
+ * @param source
+ * @param headers used when fetching `source` (and any nested sitemaps)
+ * @param fetch used to fetch `source` (and any nested sitemaps)
+ */
+export async function readUrls(
+  source: string,
+  headers: {[key: string]: string} = {},
+  fetch: Fetch = createFetcher(),
+): Promise<string[]> {
+  const text = await readSource(source, headers, fetch);
+  if (!text.match(/^\s*<(\?xml|urlset|sitemapindex)/)) {
+    return text.split("\n").map(s => s.trim()).filter(s => s && !s.startsWith("#"));
+  }
+  const $ = cheerio.load(text, {xmlMode: true});
+  const loc = (selector: string) => $(selector).map((_, e) => $(e).text().trim()).get() as any as string[];
+  const nested = await Promise.all(loc("sitemapindex > sitemap > loc").map(s => readUrls(s, headers, fetch)));
+  return ([] as string[]).concat(loc("urlset > url > loc"), ...nested);
+}
+
+/**
+ * Lints `urls`, at most `concurrency` at a time.
+ *
+ * @param urls URLs (or file paths) to lint
+ * @param lint lints a single URL
+ * @param concurrency a positive integer
+ */
+export async function lintBatch(
+  urls: string[],
+  lint: (url: string) => Promise<LintReport>,
+  concurrency = 4,
+): Promise<BatchReport> {
+  if (!(Number.isInteger(concurrency) && concurrency > 0)) {
+    throw new Error(`concurrency [${concurrency}] should be a positive integer`);
+  }
+  const lintOne = throat(concurrency, (url: string) => lint(url));
+  // Results are in input order, rather than completion order. (A report's url
+  // needn't be the input, e.g. when linting files.)
+  const results = await Promise.all(urls.map(url => lintOne(url).catch(
+    (e): {url: string, message: string} => ({message: e.message || `${e}`, url}),
+  )));
+  const reports = results.filter(r => "summary" in r) as LintReport[];
+  const errors = results.filter(r => !("summary" in r)) as Array<{url: string, message: string}>;
+  const totals = reports.reduce((a: BatchReport["totals"], r) => {
+    Object.keys(r.summary).forEach(rule => {
+      const status = r.summary[rule].status;
+      a[rule] = a[rule] || {};
+      a[rule][status] = (a[rule][status] || 0) + 1;
+    });
+    return a;
+  }, {});
+  return {errors, reports, totals};
+}
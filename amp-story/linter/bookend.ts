@@ -0,0 +1,147 @@
+/**
+ * The types of <amp-social-share> that can be used as bookend share
+ * providers.
+ */
+export const SHARE_PROVIDERS = [
+  "email",
+  "facebook",
+  "gplus",
+  "line",
+  "linkedin",
+  "pinterest",
+  "sms",
+  "system",
+  "tumblr",
+  "twitter",
+  "whatsapp",
+];
+
+export const BOOKEND_VERSION = "v1.0";
+
+/** The shape of the image of each component type (if it has one). */
+export type ImageShape = "square"|"portrait"|"landscape";
+
+interface ComponentDefinition {
+  /** Fields that must be non-empty strings. */
+  readonly required: string[];
+  readonly image?: ImageShape;
+}
+
+const COMPONENTS: {[type: string]: ComponentDefinition} = {
+  "cta-link": {required: []},
+  "heading": {required: ["text"]},
+  "landscape": {image: "landscape", required: ["title", "url", "image"]},
+  "portrait": {image: "portrait", required: ["title", "url", "image"]},
+  "small": {image: "square", required: ["title", "url"]},
+  "textbox": {required: []},
+};
+
+/**
+ * A label for a component in messages, e.g. "components[2] (landscape)".
+ *
+ * @param component
+ * @param i
+ */
+export function componentLabel(component: any, i: number) {
+  return `components[${i}]${component && component.type ? ` (${component.type})` : ""}`;
+}
+
+function isNonEmptyString(v: any) {
+  return typeof v === "string" && v.trim() !== "";
+}
+
+function componentErrors(component: any): string[] {
+  if (!component || typeof component !== "object") {
+    return ["isn't an object"];
+  }
+  const definition = COMPONENTS[component.type];
+  if (!definition) {
+    return [`type is [${component.type}], expected one of [${Object.keys(COMPONENTS).join(", ")}]`];
+  }
+  const errors = definition.required.filter(k => !isNonEmptyString(component[k])).map(k => `${k} is missing`);
+  if (component.type === "cta-link") {
+    const links = component.links;
+    if (!Array.isArray(links) || links.length === 0) {
+      errors.push("links is missing");
+    } else {
+      links.forEach((link: any, i: number) => {
+        ["text", "url"].filter(k => !isNonEmptyString(link && link[k]))
+          .forEach(k => errors.push(`links[${i}].${k} is missing`));
+      });
+    }
+  }
+  if (component.type === "textbox" &&
+    !(Array.isArray(component.text) && component.text.length > 0 && component.text.every(isNonEmptyString))) {
+    errors.push("text is missing (or isn't an array of strings)");
+  }
+  return errors;
+}
+
+/**
+ * Returns the problems with the structure of a bookend (v1.0), as messages
+ * prefixed by the part of the bookend they refer to.
+ *
+ * https://www.ampproject.org/docs/reference/components/amp-story-bookend
+ *
+ * @param bookend
+ */
+export function bookendErrors(bookend: any): string[] {
+  if (!bookend || typeof bookend !== "object" || Array.isArray(bookend)) {
+    return ["bookend isn't an object"];
+  }
+  const errors: string[] = [];
+  if (bookend.bookendVersion !== BOOKEND_VERSION) {
+    errors.push(`bookendVersion is [${bookend.bookendVersion}], expected [${BOOKEND_VERSION}]`);
+  }
+  if (bookend.shareProviders !== undefined) {
+    if (!Array.isArray(bookend.shareProviders)) {
+      errors.push("shareProviders isn't an array");
+    } else {
+      bookend.shareProviders.forEach((p: any, i: number) => {
+        const provider = typeof p === "string" ? p : p && p.provider;
+        if (SHARE_PROVIDERS.indexOf(provider) === -1) {
+          errors.push(`shareProviders[${i}] is [${provider}], expected one of [${SHARE_PROVIDERS.join(", ")}]`);
+        } else if (provider === "facebook" && !(p && p.app_id)) {
+          errors.push(`shareProviders[${i}] (facebook) has no app_id`);
+        }
+      });
+    }
+  }
+  if (!Array.isArray(bookend.components) || bookend.components.length === 0) {
+    errors.push("components is missing");
+  } else {
+    bookend.components.forEach((c: any, i: number) => {
+      componentErrors(c).forEach(e => errors.push(`${componentLabel(c, i)} ${e}`));
+    });
+  }
+  return errors;
+}
+
+/**
+ * The URLs (links and images) in the bookend's components, with the label of
+ * the component, and the shape the image should have.
+ *
+ * @param bookend
+ */
+export function getBookendResources(bookend: any) {
+  const links: Array<{label: string, url: string}> = [];
+  const images: Array<{label: string, url: string, shape: ImageShape}> = [];
+  const components = bookend && Array.isArray(bookend.components) ? bookend.components : [];
+  components.forEach((c: any, i: number) => {
+    const definition = c && COMPONENTS[c.type];
+    if (!definition) {
+      return;
+    }
+    const label = componentLabel(c, i);
+    if (isNonEmptyString(c.url)) {
+      links.push({label, url: c.url});
+    }
+    if (c.type === "cta-link" && Array.isArray(c.links)) {
+      c.links.filter((l: any) => l && isNonEmptyString(l.url)).forEach((l: any) => links.push({label, url: l.url}));
+    }
+    if (definition.image && isNonEmptyString(c.image)) {
+      images.push({label, shape: definition.image, url: c.image});
+    }
+  });
+  return {images, links};
+}
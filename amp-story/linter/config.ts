@@ -0,0 +1,155 @@
+import {existsSync, readFileSync} from "fs";
+import {dirname, join, resolve} from "path";
+
+import {Severity} from "./index";
+
+export const CONFIG_FILENAME = ".amp-story-lint.json";
+
+/**
+ * "off" disables a rule; a severity replaces the status of every non-PASS
+ * message the rule returns (e.g. "FAIL" promotes WARN to FAIL).
+ */
+export type RuleSetting = "off"|Severity;
+
+/**
+ * Thresholds used by the rules, and limits on the requests they make. The
+ * defaults are in `DEFAULT_OPTIONS`.
+ */
+export interface Options {
+  /** Maximum size of a video (bytes). */
+  readonly maxVideoSize: number;
+  /** Recommended maximum length of each video (seconds). */
+  readonly maxVideoDuration: number;
+  /** Recommended minimum resolution of videos (length of the shorter side, px). */
+  readonly minVideoResolution: number;
+  /** Recommended maximum resolution of videos (length of the shorter side, px). */
+  readonly maxVideoResolution: number;
+  /** Minimum length of the text in the story (characters). */
+  readonly minTextLength: number;
+  /** Recommended minimum number of pages. */
+  readonly minPages: number;
+  /** Recommended maximum number of pages. */
+  readonly maxPages: number;
+  /** Lower bound of the short:long side ratio of portrait/landscape posters. */
+  readonly posterRatioMin: number;
+  /** Upper bound of the short:long side ratio of portrait/landscape posters. */
+  readonly posterRatioMax: number;
+  /** Allowed difference between the actual and specified <amp-img> ratio. */
+  readonly imgRatioTolerance: number;
+  /** Specified <amp-img> area below this fraction of the actual area is "much larger". */
+  readonly imgMinAreaFactor: number;
+  /** Specified <amp-img> area above this multiple of the actual area is "much smaller". */
+  readonly imgMaxAreaFactor: number;
+  /** Recommended maximum transfer size of each image (bytes). */
+  readonly maxImageSize: number;
+  /** Images over this size (bytes) should have a srcset, and use WebP or AVIF rather than JPEG or PNG. */
+  readonly largeImageSize: number;
+  /** Recommended maximum total transfer size of the document and its images (bytes). */
+  readonly maxPageWeight: number;
+  /** Viewport size used to estimate the rendered size of images (CSS px). */
+  readonly viewportWidth: number;
+  readonly viewportHeight: number;
+  /** Images with more pixels than this multiple of their rendered size (in both dimensions) are "oversized". */
+  readonly imgMaxDensity: number;
+  /** Minimum font size (px). */
+  readonly minFontSize: number;
+  /** Minimum contrast ratio of text (e.g. 4.5 for 4.5:1). */
+  readonly minContrastRatio: number;
+  /** Minimum contrast ratio of large (at least 24px, or 18.66px bold) text. */
+  readonly minContrastRatioLarge: number;
+  /** How recent datePublished and dateModified must be (days). */
+  readonly freshnessDays: number;
+  /** Time allowed for each request (ms); 0 for no limit. */
+  readonly requestTimeout: number;
+  /** Number of times to retry a request that fails, times out, or gets a 429 or 5xx. */
+  readonly requestRetries: number;
+}
+
+export const DEFAULT_OPTIONS: Options = {
+  freshnessDays: 30,
+  imgMaxAreaFactor: 1.5,
+  imgMaxDensity: 3,
+  imgMinAreaFactor: 0.25,
+  imgRatioTolerance: 0.015,
+  largeImageSize: 100000,
+  maxImageSize: 500000,
+  maxPageWeight: 3000000,
+  maxPages: 30,
+  maxVideoDuration: 15,
+  maxVideoResolution: 720,
+  maxVideoSize: 4000000,
+  minContrastRatio: 4.5,
+  minContrastRatioLarge: 3,
+  minFontSize: 12,
+  minPages: 5,
+  minTextLength: 100,
+  minVideoResolution: 480,
+  posterRatioMax: 0.76,
+  posterRatioMin: 0.74,
+  requestRetries: 2,
+  requestTimeout: 10000,
+  viewportHeight: 732,
+  viewportWidth: 412,
+};
+
+export interface Config {
+  readonly rules?: {
+    [id: string]: RuleSetting;
+  };
+  readonly options?: Partial<Options>;
+}
+
+const SETTINGS: RuleSetting[] = ["off", "FAIL", "WARN", "INFO"];
+
+/**
+ * Returns the path of the nearest config file in `dir` or one of its
+ * ancestors, or `undefined` if there isn't one.
+ *
+ * @param dir
+ */
+export function findConfig(dir: string): string|undefined {
+  const file = join(resolve(dir), CONFIG_FILENAME);
+  if (existsSync(file)) {
+    return file;
+  }
+  const parent = dirname(resolve(dir));
+  return parent === resolve(dir) ? undefined : findConfig(parent);
+}
+
+/**
+ * Reads and checks a config file. Throws if the file can't be parsed, or if
+ * it refers to a rule not in `ruleIds` (when provided).
+ *
+ * @param file
+ * @param ruleIds
+ */
+export function loadConfig(file: string, ruleIds?: string[]): Config {
+  const config = (() => {
+    try {
+      return JSON.parse(readFileSync(file).toString());
+    } catch (e) {
+      throw new Error(`couldn't read/parse config [${file}]: ${e.message}`);
+    }
+  })();
+  const rules = config.rules || {};
+  Object.keys(rules).forEach((id) => {
+    if (ruleIds && ruleIds.indexOf(id) === -1) {
+      throw new Error(`unknown rule [${id}] in config [${file}]`);
+    }
+    if (SETTINGS.indexOf(rules[id]) === -1) {
+      throw new Error(
+        `invalid setting [${rules[id]}] for rule [${id}] in config [${file}], expected one of [${SETTINGS.join(", ")}]`
+      );
+    }
+  });
+  const options = config.options || {};
+  Object.keys(options).forEach((k) => {
+    if (!(k in DEFAULT_OPTIONS)) {
+      throw new Error(`unknown option [${k}] in config [${file}]`);
+    }
+    if (typeof options[k] !== "number") {
+      throw new Error(`option [${k}] in config [${file}] is not a number`);
+    }
+  });
+  return config as Config;
+}
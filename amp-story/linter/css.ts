@@ -0,0 +1,135 @@
+export interface Rgb {
+  readonly r: number;
+  readonly g: number;
+  readonly b: number;
+}
+
+const NAMED_COLORS: {[name: string]: string} = {
+  black: "#000000",
+  blue: "#0000ff",
+  gray: "#808080",
+  green: "#008000",
+  grey: "#808080",
+  orange: "#ffa500",
+  purple: "#800080",
+  red: "#ff0000",
+  silver: "#c0c0c0",
+  white: "#ffffff",
+  yellow: "#ffff00",
+};
+
+/**
+ * Parses the declarations in a style attribute (or the body of a rule) into
+ * an object of lowercased property names to values (without `!important`).
+ *
+ * @param style
+ */
+export function parseDeclarations(style: string): {[property: string]: string} {
+  return style.split(";").reduce((a: {[property: string]: string}, d) => {
+    const n = d.indexOf(":");
+    if (n !== -1) {
+      a[d.substring(0, n).trim().toLowerCase()] = d.substring(n + 1).replace(/!important/i, "").trim();
+    }
+    return a;
+  }, {});
+}
+
+/**
+ * Returns the (non-nested) rules in `css`. Comments and at-rules with a block
+ * (such as @media) are ignored, i.e. only rules that always apply are
+ * returned.
+ *
+ * @param css
+ */
+export function parseRules(css: string): Array<{selector: string, declarations: {[property: string]: string}}> {
+  const rules: Array<{selector: string, declarations: {[property: string]: string}}> = [];
+  const s = css.replace(/\/\*[\s\S]*?\*\//g, "");
+  let depth = 0;
+  let start = 0;
+  let selector = "";
+  for (let i = 0; i < s.length; i++) {
+    if (s[i] === "{") {
+      if (depth === 0) {
+        selector = s.substring(start, i).trim();
+        start = i + 1;
+      }
+      depth++;
+    } else if (s[i] === "}") {
+      depth--;
+      if (depth === 0) {
+        if (!selector.startsWith("@")) {
+          rules.push({declarations: parseDeclarations(s.substring(start, i)), selector});
+        }
+        start = i + 1;
+      }
+    }
+  }
+  return rules;
+}
+
+/**
+ * Parses an opaque color (hex, rgb() or one of the common names), or returns
+ * `undefined` if the color can't be parsed or is (partly) transparent.
+ *
+ * @param s
+ */
+export function parseColor(s: string|undefined): Rgb|undefined {
+  if (!s) {
+    return undefined;
+  }
+  const color = NAMED_COLORS[s.trim().toLowerCase()] || s.trim().toLowerCase();
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const h = hex[1].length === 3 ? hex[1].split("").map(c => c + c).join("") : hex[1];
+    return {b: parseInt(h.substring(4, 6), 16), g: parseInt(h.substring(2, 4), 16), r: parseInt(h.substring(0, 2), 16)};
+  }
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/);
+  if (rgb && (rgb[4] === undefined || parseFloat(rgb[4]) === 1)) {
+    return {b: parseInt(rgb[3], 10), g: parseInt(rgb[2], 10), r: parseInt(rgb[1], 10)};
+  }
+  return undefined;
+}
+
+/**
+ * The background color of a `background` or `background-color` declaration.
+ *
+ * @param declarations
+ */
+export function backgroundColor(declarations: {[property: string]: string}): Rgb|undefined {
+  return parseColor(declarations["background-color"]) ||
+    (declarations.background ? parseColor(declarations.background.split(/\s+(?![^(]*\))/)[0]) : undefined);
+}
+
+function luminance({r, g, b}: Rgb) {
+  const [lr, lg, lb] = [r, g, b].map(v => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+/**
+ * The WCAG 2 contrast ratio of two colors, from 1 to 21.
+ *
+ * https://www.w3.org/TR/WCAG20/#contrast-ratiodef
+ */
+export function contrastRatio(c1: Rgb, c2: Rgb) {
+  const [l1, l2] = [luminance(c1), luminance(c2)].sort((a, b) => b - a);
+  return (l1 + 0.05) / (l2 + 0.05);
+}
+
+/**
+ * Converts an absolute (px, pt) or root-relative (rem) font size to pixels,
+ * assuming a 16px root font size. Returns `undefined` for other units (such
+ * as em and %), which depend on the parent.
+ *
+ * @param s
+ */
+export function fontSizePx(s: string|undefined): number|undefined {
+  const m = (s || "").trim().toLowerCase().match(/^([\d.]+)(px|pt|rem)$/);
+  if (!m) {
+    return undefined;
+  }
+  const n = parseFloat(m[1]);
+  return m[2] === "px" ? n : m[2] === "pt" ? n * 4 / 3 : n * 16;
+}
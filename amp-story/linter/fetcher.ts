@@ -0,0 +1,297 @@
+import {createHash} from "crypto";
+import {existsSync, mkdirSync, readFileSync, writeFileSync} from "fs";
+import {join} from "path";
+import {Readable} from "stream";
+import {URL} from "url";
+
+import {default as nodeFetch, Headers, RequestInit, Response, ResponseInit} from "node-fetch";
+import throat = require("throat");
+
+/**
+ * The subset of `fetch()` used by the rules. All requests go through the
+ * `fetch` of the `Context` (if provided), so tests can substitute a fake.
+ */
+export type Fetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface FetcherOptions {
+  /** Directory of the persistent cache; responses are only cached in memory if unset. */
+  readonly cacheDir?: string;
+  /** Maximum number of concurrent requests to a single host. */
+  readonly perHost?: number;
+  /** Used to make the actual requests (defaults to node-fetch). */
+  readonly fetch?: Fetch;
+  /** Time allowed for each request, including reading the body (ms); 0 for no limit. */
+  readonly timeout?: number;
+  /** Number of times to retry requests that fail, time out, or return 429 or 5xx. */
+  readonly retries?: number;
+  /** Delay before the first retry (ms); doubles for each subsequent retry. */
+  readonly retryDelay?: number;
+  /**
+   * Maximum total size (in bytes) of the response bodies kept in memory; the
+   * least recently used responses are dropped first.
+   */
+  readonly memoSize?: number;
+}
+
+interface Entry {
+  readonly url: string;
+  readonly status: number;
+  readonly statusText: string;
+  readonly headers: {[key: string]: string};
+  readonly body: Buffer;
+  /** When the response was received (or last revalidated), in ms. */
+  readonly time: number;
+}
+
+function toObject(headers: Headers) {
+  const o: {[key: string]: string} = {};
+  headers.forEach((v, k) => { o[k] = v; });
+  return o;
+}
+
+/**
+ * How long (in seconds) a response with these headers may be used without
+ * revalidation.
+ *
+ * @param headers
+ */
+function maxAge(headers: {[key: string]: string}) {
+  const cc = headers["cache-control"] || "";
+  if (cc.match(/no-cache|no-store/)) {
+    return 0;
+  }
+  const m = cc.match(/(?:^|,)\s*(?:s-maxage|max-age)=(\d+)/);
+  return m ? parseInt(m[1], 10) : 0;
+}
+
+function isStorable(method: string, entry: Entry) {
+  const cc = entry.headers["cache-control"] || "";
+  return (method === "GET" || method === "HEAD") && entry.status === 200 && !cc.match(/no-store|private/);
+}
+
+function isTransient(status: number) {
+  return status === 429 || status >= 500;
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Rejects with an ETIMEDOUT error if `p` doesn't settle within `ms`.
+ */
+function withTimeout<T>(p: Promise<T>, ms: number, url: string): Promise<T> {
+  if (!ms) {
+    return p;
+  }
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(Object.assign(new Error(`request to [${url}] timed out after ${ms}ms`), {code: "ETIMEDOUT"}));
+    }, ms);
+    p.then(
+      (v) => { clearTimeout(timer); resolve(v); },
+      (e) => { clearTimeout(timer); reject(e); },
+    );
+  });
+}
+
+/**
+ * The number of bytes asked for by a Range header of the form "bytes=0-N"
+ * (i.e. the start of the resource), if there is one.
+ *
+ * @param headers
+ */
+function rangeLength(headers: {[key: string]: string}) {
+  const m = (headers.range || "").match(/^bytes=0-(\d+)$/);
+  return m ? parseInt(m[1], 10) + 1 : undefined;
+}
+
+/**
+ * Reads (at most) the first `limit` bytes of the body of `res`, closing the
+ * connection once they've arrived, rather than downloading the rest.
+ *
+ * @param res
+ * @param limit
+ */
+export function readBody(res: Response, limit: number): Promise<Buffer> {
+  const body = res.body as Readable;
+  if (!body || typeof body.on !== "function") {
+    return res.buffer().then(buf => buf.slice(0, limit));
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+    body.on("data", (chunk: Buffer) => {
+      chunks.push(chunk);
+      length += chunk.length;
+      if (length >= limit) {
+        body.destroy();
+        resolve(Buffer.concat(chunks).slice(0, limit));
+      }
+    });
+    body.on("end", () => resolve(Buffer.concat(chunks)));
+    body.on("error", reject);
+  });
+}
+
+function readEntry(file: string): Entry|undefined {
+  try {
+    const o = JSON.parse(readFileSync(file).toString());
+    return Object.assign(o, {body: Buffer.from(o.body, "base64")});
+  } catch (e) {
+    return undefined; // missing or corrupt; either way, refetch
+  }
+}
+
+function writeEntry(file: string, entry: Entry) {
+  writeFileSync(file, JSON.stringify(Object.assign({}, entry, {body: entry.body.toString("base64")})));
+}
+
+/**
+ * Returns a `Fetch` that:
+ *
+ * - makes each distinct request (method, URL and headers) only once while
+ *   it's in flight, or while its response is among the most recently used
+ *   (up to `memoSize` bytes of them);
+ * - if `cacheDir` is set, also caches successful GET and HEAD responses on
+ *   disk, honoring Cache-Control max-age, and revalidating stale responses
+ *   with If-None-Match (ETag) or If-Modified-Since (Last-Modified);
+ * - makes at most `perHost` concurrent requests to each host;
+ * - only reads the requested part of the body if a server ignores a Range
+ *   header asking for the start of a resource;
+ * - gives up on requests that take longer than `timeout`, and retries those
+ *   that fail (or get a 429 or 5xx response) up to `retries` times, with
+ *   exponential backoff.
+ *
+ * @param options
+ */
+export function createFetcher(options: FetcherOptions = {}): Fetch {
+  const {cacheDir, perHost = 6, timeout = 10000, retries = 2, retryDelay = 500, memoSize = 32000000} = options;
+  const fetch = options.fetch || nodeFetch;
+  // In least recently used order; `sizes` has the body size of the entries
+  // that have been received (rather than being in flight).
+  const memo = new Map<string, Promise<Entry>>();
+  const sizes = new Map<string, number>();
+  let memoTotal = 0;
+  const limits: {[host: string]: <T>(fn: () => Promise<T>) => Promise<T>} = {};
+
+  if (cacheDir && !existsSync(cacheDir)) {
+    mkdirSync(cacheDir);
+  }
+
+  const forget = (key: string) => {
+    memo.delete(key);
+    memoTotal -= sizes.get(key) || 0;
+    sizes.delete(key);
+  };
+
+  const remember = (key: string, size: number) => {
+    sizes.set(key, size);
+    memoTotal += size;
+    for (const k of Array.from(memo.keys())) {
+      if (memoTotal <= memoSize) {
+        break;
+      }
+      if (sizes.has(k)) {
+        forget(k);
+      }
+    }
+  };
+
+  const limit = (url: string) => {
+    const host = new URL(url).host;
+    return limits[host] = limits[host] || throat(perHost);
+  };
+
+  const load = async (key: string, url: string, init: RequestInit): Promise<Entry> => {
+    const method = (init.method || "GET").toUpperCase();
+    const file = cacheDir ? join(cacheDir, `${createHash("sha1").update(key).digest("hex")}.json`) : undefined;
+    const cached = file ? readEntry(file) : undefined;
+    if (cached && Date.now() - cached.time < maxAge(cached.headers) * 1000) {
+      return cached;
+    }
+    const conditional: {[key: string]: string} = {};
+    if (cached && cached.headers.etag) {
+      conditional["if-none-match"] = cached.headers.etag;
+    }
+    if (cached && cached.headers["last-modified"]) {
+      conditional["if-modified-since"] = cached.headers["last-modified"];
+    }
+    const headers = Object.assign({}, init.headers, conditional);
+    const range = rangeLength(headers);
+    const attempt = () => limit(url)(() => withTimeout(
+      // (node-fetch's own timeout makes sure the socket is closed.)
+      fetch(url, Object.assign({}, init, {headers, timeout})).then(async (r) => {
+        const buf = method === "HEAD" || r.status === 304 ? Buffer.alloc(0) :
+          r.status === 200 && range ? await readBody(r, range) :
+          await r.buffer();
+        return {body: buf, res: r};
+      }),
+      timeout,
+      url,
+    ));
+    const retrying = async (n: number): Promise<{body: Buffer, res: Response}> => {
+      const last = n >= retries;
+      try {
+        const r = await attempt();
+        if (last || !isTransient(r.res.status)) {
+          return r;
+        }
+      } catch (e) {
+        if (last) {
+          throw e;
+        }
+      }
+      await sleep(retryDelay * Math.pow(2, n));
+      return retrying(n + 1);
+    };
+    const {body, res} = await retrying(0);
+    const entry: Entry = (cached && res.status === 304) ?
+      Object.assign({}, cached, {headers: Object.assign({}, cached.headers, toObject(res.headers)), time: Date.now()}) :
+      {
+        body,
+        headers: toObject(res.headers),
+        status: res.status,
+        statusText: res.statusText,
+        time: Date.now(),
+        url: res.url || url,
+      };
+    // (A body cut short by `readBody()` isn't the whole resource.)
+    const partial = res.status === 200 && !!range && body.length >= range;
+    if (file && isStorable(method, entry) && !partial) {
+      writeEntry(file, entry);
+    }
+    return entry;
+  };
+
+  return (url, init = {}) => {
+    const method = (init.method || "GET").toUpperCase();
+    if (method !== "GET" && method !== "HEAD") {
+      return limit(url)(() => fetch(url, init));
+    }
+    const headers = (init.headers || {}) as {[key: string]: string};
+    const key = JSON.stringify([method, url, Object.keys(headers).sort().map(k => [k, headers[k]])]);
+    let p = memo.get(key);
+    if (p) {
+      memo.delete(key); // (re-inserted as the most recently used)
+    } else {
+      p = load(key, url, init).then((entry) => {
+        if (memo.get(key) === p) {
+          remember(key, entry.body.length);
+        }
+        return entry;
+      }, (e) => {
+        if (memo.get(key) === p) {
+          forget(key); // don't remember failures
+        }
+        throw e;
+      });
+    }
+    memo.set(key, p);
+    return p.then(entry => new Response(
+      method === "HEAD" ? "" : entry.body,
+      {headers: new Headers(entry.headers), status: entry.status, statusText: entry.statusText, url: entry.url} as
+        ResponseInit,
+    ));
+  };
+}
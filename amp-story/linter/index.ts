@@ -1,7 +1,7 @@
 /// <reference path="probe-image-size.d.ts" />
 /// <reference path="amp-toolbox-cache-url.d.ts" />
 
-import {readFileSync} from "fs";
+import {existsSync, readdirSync, readFileSync, statSync, writeFileSync} from "fs";
 import {resolve, URL} from "url";
 // tslint:disable-next-line:no-var-requires
 const validator = require("amphtml-validator").newInstance(
@@ -12,15 +12,34 @@ const validator = require("amphtml-validator").newInstance(
 );
 import createCacheUrl = require("amp-toolbox-cache-url");
 import * as cheerio from "cheerio";
+import {createPatch} from "diff";
 import throat = require("throat");
 
-import {default as fetch, Request, RequestInit, Response} from "node-fetch";
-import {basename} from "path";
+import {default as fetch, Headers, RequestInit, Response, ResponseInit} from "node-fetch";
+import * as parse5 from "parse5";
+import {basename, dirname, extname, join, relative, resolve as resolvePath, sep} from "path";
 import * as probe from "probe-image-size";
 import * as punycode from "punycode";
-import * as readline from "readline";
+
+import {lintBatch, readUrls} from "./batch";
+import {BOOKEND_VERSION, bookendErrors, getBookendResources} from "./bookend";
+import {
+  Config,
+  CONFIG_FILENAME,
+  DEFAULT_OPTIONS,
+  findConfig,
+  loadConfig,
+  Options,
+  RuleSetting,
+} from "./config";
+import {backgroundColor, contrastRatio, fontSizePx, parseColor, parseDeclarations, parseRules} from "./css";
+import {createFetcher, Fetch, readBody} from "./fetcher";
+import {BATCH_REPORTERS, REPORTERS} from "./reporters";
+import {ARTICLE_SCHEMA, getImages, imageSizeProblems, typesOf, validateItem} from "./schema";
+import {dashErrors, hlsErrors, probeVideo, VideoInfo} from "./video";
 
 const CONCURRENCY = 8;
+const SNIPPET_LENGTH = 200;
 const UA_GOOGLEBOT_MOBILE = [
   "Mozilla/5.0 (Linux; Android 6.0.1; Nexus 5X Build/MMB29P) AppleWebKit/537.36",
   "(KHTML, like Gecko) Chrome/41.0.2272.96 Mobile Safari/537.36",
@@ -32,17 +51,53 @@ export interface ActualExpected {
   readonly expected: string;
 }
 
+/**
+ * Where in the document a message applies. `line` and `column` (1-based) are
+ * only available if the document was loaded with `loadSource()` (or with
+ * htmlparser2's `withStartIndices`, if the context includes the `source`);
+ * `selector` and `html` only if the message refers to an element.
+ */
+export interface SourceLocation {
+  readonly line?: number;
+  readonly column?: number;
+  readonly selector?: string;
+  readonly html?: string;
+}
+
 export interface Message {
   readonly status: string;
   readonly message?: string|ActualExpected;
+  readonly location?: SourceLocation;
+  /**
+   * For ERROR messages, the error that prevented the check, e.g. ETIMEDOUT,
+   * ENOTFOUND or HTTP_503.
+   */
+  readonly code?: string;
 }
 
 export interface Context {
   readonly url: string;
   readonly $: CheerioStatic;
+  readonly source?: string;
   readonly headers: {
     [key: string]: string;
   };
+  readonly options?: Partial<Options>;
+  /**
+   * If set, URLs under `local.url` are read from the directory `local.dir`
+   * rather than fetched (see `lintFile`).
+   */
+  readonly local?: {
+    readonly url: string;
+    readonly dir: string;
+  };
+  /** If true, rules that need the network are SKIPPED by `testAll()`. */
+  readonly offline?: boolean;
+  /**
+   * Used for every request made by the rules; `testAll()` supplies one (see
+   * `createFetcher`) if missing, so that each resource is only fetched once.
+   */
+  readonly fetch?: Fetch;
 }
 
 export interface Test {
@@ -53,6 +108,14 @@ export interface TestList {
   (context: Context): Promise<Message[]>;
 }
 
+/**
+ * Fixes the problems found by a rule's test by modifying `context.$` in
+ * place, resolving to a description of each change made.
+ */
+export interface Fix {
+  (context: Context): Promise<string[]>;
+}
+
 interface InlineMetadata {
   "title": string;
   "publisher": string;
@@ -66,6 +129,8 @@ const S_PASS = "PASS";
 const S_FAIL = "FAIL";
 const S_WARN = "WARN";
 const S_INFO = "INFO";
+const S_SKIPPED = "SKIPPED";
+const S_ERROR = "ERROR";
 
 export const PASS = (): Promise<Message> => Promise.resolve({status: S_PASS});
 export const FAIL = (s: string|ActualExpected) => {
@@ -77,6 +142,13 @@ export const WARN = (s: string|ActualExpected) => {
 export const INFO = (s: string|ActualExpected) => {
   return Promise.resolve({status: S_INFO, message: s});
 };
+export const SKIPPED = (s: string) => {
+  return Promise.resolve({status: S_SKIPPED, message: s});
+};
+/** The rule couldn't check something, e.g. because a request timed out. */
+export const ERROR = (s: string, code: string) => {
+  return Promise.resolve({status: S_ERROR, message: s, code});
+};
 
 const isPass = (m: Message): boolean => {
   return m.status === S_PASS;
@@ -86,39 +158,283 @@ const notPass = (m: Message): boolean => {
   return m.status !== S_PASS;
 };
 
+/**
+ * Inserts `html` before `before`, on a line of its own if `before` is
+ * indented.
+ *
+ * @param $
+ * @param html
+ * @param before
+ */
+function insertBefore($: CheerioStatic, html: string, before: Cheerio) {
+  const prev = before.get(0).prev;
+  const indent = prev && prev.type === "text" && (prev.data || "").match(/\n[ \t]*$/);
+  before.before(html);
+  if (indent) {
+    before.before(indent[0]);
+  }
+}
+
+/**
+ * Inserts `html` after `after`, on a line of its own if `after` is indented.
+ *
+ * @param $
+ * @param html
+ * @param after
+ */
+function insertAfter($: CheerioStatic, html: string, after: Cheerio) {
+  const prev = after.get(0).prev;
+  const indent = prev && prev.type === "text" && (prev.data || "").match(/\n[ \t]*$/);
+  after.after(html);
+  if (indent) {
+    after.after(indent[0]);
+  }
+}
+
+/**
+ * Detaches `e` (so that it can be inserted elsewhere), along with the
+ * whitespace before it.
+ *
+ * @param $
+ * @param e
+ */
+function detach($: CheerioStatic, e: Cheerio) {
+  const prev = e.get(0).prev;
+  if (prev && prev.type === "text" && /^\s*$/.test(prev.data || "")) {
+    $(prev).remove();
+  }
+  return e.remove();
+}
+
+const CONTENT_TYPES: {[ext: string]: string} = {
+  ".css": "text/css",
+  ".gif": "image/gif",
+  ".htm": "text/html",
+  ".html": "text/html",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".js": "application/javascript",
+  ".json": "application/json",
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".mp4": "video/mp4",
+  ".mpd": "application/dash+xml",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".webm": "video/webm",
+  ".webp": "image/webp",
+};
+
+/**
+ * Returns the local path of `url` if it's a `file:` URL or is under
+ * `context.local.url`, otherwise `undefined`.
+ *
+ * @param context
+ * @param url
+ */
+function localPath(context: Context, url: string): string|undefined {
+  if (url.startsWith("file:")) {
+    return decodeURIComponent(new URL(url).pathname);
+  }
+  const local = context.local;
+  if (local && url.startsWith(local.url)) {
+    return join(local.dir, decodeURIComponent(url.substring(local.url.length).split(/[?#]/)[0]));
+  }
+  return undefined;
+}
+
+/**
+ * Fetches `s` with `context.fetch` (or `fetch()`), but reads local URLs (see
+ * `localPath`) from disk. If a local http(s) URL doesn't exist on disk, it's
+ * fetched instead (so that assets not in the directory can still be found via
+ * `--base-url`).
+ *
+ * @param context
+ * @param s
+ * @param init
+ */
+function fetchResource(context: Context, s: string, init: RequestInit = {}): Promise<Response> {
+  const path = localPath(context, s);
+  if (!path) {
+    return (context.fetch || fetch)(s, init);
+  }
+  if (!existsSync(path) || !statSync(path).isFile()) {
+    return s.match(/^https?:/) ?
+      (context.fetch || fetch)(s, init) :
+      Promise.resolve(new Response("", {status: 404, url: s} as ResponseInit));
+  }
+  const body = readFileSync(path);
+  const headers = new Headers({
+    "content-length": `${body.length}`,
+    "content-type": CONTENT_TYPES[extname(path).toLowerCase()] || "application/octet-stream",
+  });
+  return Promise.resolve(new Response(
+    init.method === "HEAD" ? "" : body,
+    {headers, status: 200, url: s} as ResponseInit,
+  ));
+}
+
 const getBody = throat(CONCURRENCY,
-  (context: Context, s: string|Request, init = {}) => {
+  (context: Context, s: string, init = {}) => {
     if (!("headers" in init)) {
       init.headers = {};
     }
     // Might be able to use type guards to avoid the cast somehow...
     (init.headers as {[key: string]: string})["user-agent"] = UA_GOOGLEBOT_MOBILE;
-    return fetch(s, init);
+    return fetchResource(context, s, init);
     // return res.ok ? res.text() : new Error(res);
   },
 );
 
 const getUrl = throat(CONCURRENCY,
-  async (context: Context, s: string|Request) => {
-    const res = await fetch(s, {headers: context.headers });
+  async (context: Context, s: string) => {
+    const res = await fetchResource(context, s, {headers: context.headers});
+    if (!res.ok) { return Promise.reject(res); }
     return res.url;
   },
 );
 
 const getContentLength = throat(CONCURRENCY,
-  async (context: Context, s: string|Request) => {
+  async (context: Context, s: string) => {
     const options = Object.assign(
       {},
       { method: "HEAD" },
       { headers: context.headers }
     );
-    const res = await fetch(s, options);
+    const res = await fetchResource(context, s, options);
     if (!res.ok) { return Promise.reject(res); }
     const contentLength = res.headers.get("content-length");
     return contentLength ? contentLength : 0;
   },
 );
 
+const getOptions = (context: Context): Options => {
+  return Object.assign({}, DEFAULT_OPTIONS, context.options);
+};
+
+/**
+ * Whether `e` (an error, or a response) means that a resource couldn't be
+ * checked, rather than that there's a problem with it: the request failed or
+ * timed out, or the server returned a (possibly temporary) error.
+ *
+ * @param e
+ */
+function isCouldNotCheck(e: any) {
+  const status = e && (e.statusCode || e.status);
+  if (status) {
+    return status === 429 || status >= 500;
+  }
+  return !!e && (!!e.code || e.type === "request-timeout" || e.name === "FetchError");
+}
+
+function errorCode(e: any): string {
+  const status = e && (e.statusCode || e.status);
+  if (status) {
+    return `HTTP_${status}`;
+  }
+  return (e && e.code) || (e && e.type === "request-timeout" ? "ETIMEDOUT" : "UNKNOWN");
+}
+
+/**
+ * Returns the message for a resource (described by `what`) that couldn't be
+ * loaded: ERROR if it couldn't be checked (see `isCouldNotCheck`), otherwise
+ * FAIL.
+ *
+ * @param what
+ * @param e the error, or the response
+ */
+function loadFailure(what: string, e: any): Promise<Message> {
+  const status = e && (e.statusCode || e.status);
+  if (isCouldNotCheck(e)) {
+    return ERROR(`couldn't check ${what}: ${status ? `status ${status}` : e.message}`, errorCode(e));
+  }
+  return FAIL(status ? `${what} returned status ${status}` : `${what}: ${(e && e.message) || JSON.stringify(e)}`);
+}
+
+/**
+ * Returns a selector that identifies `e`, anchored at the nearest ancestor
+ * with a (unique) id (if any).
+ *
+ * @param $
+ * @param e
+ */
+function getSelector($: CheerioStatic, e: CheerioElement) {
+  const parts: string[] = [];
+  for (let n = e; n && n.type !== "root"; n = n.parent) {
+    const id = n.attribs && n.attribs.id;
+    if (id && /^[A-Za-z][\w-]*$/.test(id) && $(`[id="${id}"]`).length === 1) {
+      parts.unshift(`${n.name}#${id}`);
+      break;
+    }
+    const siblings = (n.parent ? n.parent.children : [n]).filter(c => c.name === n.name);
+    parts.unshift(siblings.length > 1 ? `${n.name}:nth-of-type(${siblings.indexOf(n) + 1})` : n.name);
+  }
+  return parts.join(" > ");
+}
+
+/**
+ * Parses `source` as a browser would (with parse5, as `cheerio.load()`
+ * does), but also records where each element starts, so that messages can
+ * include line numbers. Elements added by the parser (e.g. an implied
+ * <tbody>) have no location.
+ *
+ * @param source
+ */
+function loadSource(source: string): CheerioStatic {
+  const doc = parse5.parse(source, {locationInfo: true, treeAdapter: parse5.treeAdapters.htmlparser2});
+  return cheerio.load((doc as parse5.AST.HtmlParser2.Document).children as any as CheerioElement);
+}
+
+/**
+ * The line and column of `e`: from the location recorded by parse5 (see
+ * `loadSource()`), or the offset recorded by htmlparser2 (if loaded with
+ * `withStartIndices`), if either is available.
+ *
+ * @param context
+ * @param e
+ */
+function getLineColumn(context: Context, e: CheerioElement): {line?: number, column?: number} {
+  const {__location, startIndex} = e as CheerioElement & {
+    __location?: parse5.MarkupData.Location,
+    startIndex?: number,
+  };
+  if (__location) {
+    return {column: __location.col, line: __location.line};
+  }
+  if (!context.source || typeof startIndex !== "number") {
+    return {};
+  }
+  const lines = context.source.substring(0, startIndex).split("\n");
+  return {
+    column: lines[lines.length - 1].length + 1,
+    line: lines.length,
+  };
+}
+
+function getLocation(context: Context, e: CheerioElement): SourceLocation {
+  const selector = getSelector(context.$, e);
+  const html = context.$.html(e);
+  return Object.assign(
+    getLineColumn(context, e),
+    {
+      html: html.length > SNIPPET_LENGTH ? `${html.substring(0, SNIPPET_LENGTH)}...` : html,
+      selector,
+    }
+  );
+}
+
+/**
+ * Returns a function that adds the location of `e` to a non-PASS message.
+ *
+ * @param context
+ * @param e
+ */
+const withLocation = (context: Context, e: CheerioElement|undefined) => (m: Message): Message => {
+  if (!e || isPass(m)) {
+    return m;
+  }
+  return Object.assign({}, m, {location: getLocation(context, e)});
+};
+
 const absoluteUrl = (s: string|undefined, base: string|undefined) => {
   if (typeof s !== "string" || typeof base !== "string") {
     return undefined;
@@ -127,9 +443,58 @@ const absoluteUrl = (s: string|undefined, base: string|undefined) => {
   }
 };
 
+/**
+ * The items in the document's JSON-LD blocks (the items in @graph, if
+ * present, and each item of a block that's an array), with the <script>
+ * they're in; and the blocks that couldn't be parsed.
+ *
+ * @param $
+ */
+function getJsonLd($: CheerioStatic) {
+  const items: Array<{e: CheerioElement, item: any}> = [];
+  const errors: Array<{e: CheerioElement, snippet: string}> = [];
+  $('script[type="application/ld+json"]').each((i, e) => {
+    const text = $(e).html() || "";
+    try {
+      ([] as any[]).concat(JSON.parse(text)).forEach(block => {
+        const graph = block && Array.isArray(block["@graph"]) ? block["@graph"] : [block];
+        graph.filter((item: any) => item && typeof item === "object").forEach((item: any) => items.push({e, item}));
+      });
+    } catch (err) {
+      // The wording of the error varies between versions of node, but it's
+      // usually "... at position 123"; otherwise it's the end of the input.
+      const m = (err.message as string).match(/at position (\d+)/);
+      const position = m ? parseInt(m[1], 10) : text.length;
+      const snippet = text.substring(Math.max(0, position - 40), position + 40).replace(/\s+/g, " ").trim();
+      errors.push({e, snippet});
+    }
+  });
+  return {errors, items};
+}
+
+/** Whether the (or one of the) `@type` of `item` is Article, NewsArticle etc. */
+function isArticle(item: any) {
+  return typesOf(item).some(t => ARTICLE_SCHEMA.types.indexOf(t) !== -1);
+}
+
+/**
+ * The first Article (or NewsArticle etc.) in the JSON-LD, if any.
+ *
+ * @param $
+ */
+function getArticle($: CheerioStatic): {e: CheerioElement, item: any}|undefined {
+  return getJsonLd($).items.filter(({item}) => isArticle(item))[0];
+}
+
+/**
+ * The first Article in the JSON-LD, or the first item if there isn't one.
+ *
+ * @param $
+ */
 const getSchemaMetadata = ($: CheerioStatic) => {
-  const metadata = JSON.parse($('script[type="application/ld+json"]').html() as string);
-  return metadata ? metadata : {};
+  const article = getArticle($);
+  const items = getJsonLd($).items;
+  return article ? article.item : items.length > 0 ? items[0].item : {};
 };
 
 function getInlineMetadata($: CheerioStatic) {
@@ -145,21 +510,99 @@ function getInlineMetadata($: CheerioStatic) {
   return inlineMetadata;
 }
 
-function getImageSize(context: Context, url: string):
-  Promise<{width: number, height: number, mime: string, [k: string]: any}> {
-  // probe-image size can't handle encoded streams:
-  // https://github.com/nodeca/probe-image-size/issues/28
-  const headers = Object.assign({}, context.headers);
-  delete headers["accept-encoding"];
-  return probe(absoluteUrl(url, context.url), { headers });
+// Enough for the header of most images (including any EXIF data before it).
+const IMAGE_PROBE_BYTES = 128000;
+
+/**
+ * Returns the dimensions and type of an image, and its transfer size in bytes.
+ * Only the start of the image (IMAGE_PROBE_BYTES) is read, unless the
+ * dimensions aren't there, or the size isn't given by the Content-Range or
+ * Content-Length header, in which case the whole image is read.
+ *
+ * @param context
+ * @param url
+ */
+async function getImageSize(context: Context, url: string):
+  Promise<{width: number, height: number, mime: string, bytes: number, [k: string]: any}> {
+  const imageUrl = absoluteUrl(url, context.url)!;
+  const headers = Object.assign({}, context.headers, {range: `bytes=0-${IMAGE_PROBE_BYTES - 1}`});
+  const res = await fetchResource(context, imageUrl, {headers});
+  if (!res.ok) {
+    return Promise.reject({statusCode: res.status});
+  }
+  const start = await readBody(res, IMAGE_PROBE_BYTES);
+  const complete = res.status !== 206 && start.length < IMAGE_PROBE_BYTES;
+  const total = res.status === 206 ?
+    parseInt(((res.headers.get("content-range") || "").match(/\/(\d+)$/) || [])[1], 10) :
+    parseInt(res.headers.get("content-length") || "", 10) || (complete ? start.length : NaN);
+  const size = probe.sync(start);
+  if (size && total) {
+    return Object.assign(size, {bytes: total});
+  } else if (!size && complete) {
+    return Promise.reject(new Error(`[${url}] is not a recognized image format`));
+  }
+  const whole = await fetchResource(context, imageUrl, {headers: context.headers});
+  if (!whole.ok) {
+    return Promise.reject({statusCode: whole.status});
+  }
+  const buf = await whole.buffer();
+  const wholeSize = probe.sync(buf);
+  if (!wholeSize) {
+    return Promise.reject(new Error(`[${url}] is not a recognized image format`));
+  }
+  return Object.assign(wholeSize, {bytes: parseInt(whole.headers.get("content-length") || "", 10) || buf.length});
+}
+
+// Enough for the metadata of most videos (if it's at the start of the file).
+const VIDEO_PROBE_BYTES = 1000000;
+
+/**
+ * Probes the start of the video at `url`. (Only VIDEO_PROBE_BYTES are read,
+ * even if the server ignores the Range header and sends the whole file.)
+ *
+ * @param context
+ * @param url
+ */
+function getVideoInfo(context: Context, url: string): Promise<VideoInfo> {
+  const headers = Object.assign({}, context.headers, {range: `bytes=0-${VIDEO_PROBE_BYTES - 1}`});
+  return fetchResource(context, url, {headers})
+    .then(res => res.ok ? readBody(res, VIDEO_PROBE_BYTES) : Promise.reject({statusCode: res.status}))
+    .then<VideoInfo>(buf => probeVideo(buf) ||
+      Promise.reject(new Error(`[${url}] is not a recognized video format`)));
+}
+
+/**
+ * The sources of each <amp-video> in the story (either the `src` attribute,
+ * or <source> children), with the type (from the `type` attribute, or the
+ * extension), and whether the source is an HLS or DASH stream.
+ *
+ * @param context
+ */
+function getVideoSources(context: Context) {
+  const $ = context.$;
+  return $("amp-story amp-video").toArray().map(video => {
+    const elements = $(video).attr("src") ? [video] : $(video).find("source[src]").toArray();
+    const sources = elements.map(e => {
+      const url = absoluteUrl($(e).attr("src"), context.url)!;
+      const type = ($(e).attr("type") || CONTENT_TYPES[extname(new URL(url).pathname).toLowerCase()] || "")
+        .split(";")[0].trim().toLowerCase();
+      const streaming = type.match(/mpegurl$/) ? "HLS" : type === "application/dash+xml" ? "DASH" : undefined;
+      return {e, streaming, type, url};
+    });
+    return {sources, video};
+  });
 }
 
+const getCorsEndpointElements = ($: CheerioStatic): Array<{src: string, e: CheerioElement}> => {
+  return ([] as CheerioElement[]).concat(
+    $("amp-list[src]").toArray(),
+    $("amp-story amp-story-bookend[src]").toArray(),
+    $("amp-story[bookend-config-src]").toArray(),
+  ).map(e => ({e, src: $(e).attr("src") || $(e).attr("bookend-config-src")}));
+};
+
 const getCorsEndpoints = ($: CheerioStatic) => {
-  return ([] as string[]).concat(
-    $("amp-list[src]").map((_, e) => $(e).attr("src")).get(),
-    $("amp-story amp-story-bookend").attr("src"),
-    $("amp-story").attr("bookend-config-src"),
-  ).filter(s => !!s);
+  return getCorsEndpointElements($).map(({src}) => src);
 };
 
 function fetchToCurl(url: string, init: { headers?: { [k: string]: string } } = { headers: {} }) {
@@ -170,9 +613,16 @@ function fetchToCurl(url: string, init: { headers?: { [k: string]: string } } =
   return `curl -i ${h} '${url}'`;
 }
 
-const testValidity: Test = ({$}) => {
-  const res = validator.validateString($.html());
-  return Promise.resolve(res.status === "PASS" ? PASS() : res);
+const testValidity: TestList = ({$, source}) => {
+  const res = validator.validateString(source || $.html());
+  return Promise.all((res.errors as Array<{severity: string, line: number, col: number, message: string}>).map(e => {
+    const status = e.severity === "ERROR" ? S_FAIL : S_WARN;
+    return {
+      location: {column: e.col + 1, line: e.line},
+      message: e.message,
+      status,
+    };
+  }));
 };
 
 const testCanonical: Test = (context) => {
@@ -198,24 +648,107 @@ const testCanonical: Test = (context) => {
        });
       }
     },
-  ).catch(() => {
-    return FAIL(`couldn't retrieve canonical ${canonical}`);
+  ).catch((e) => {
+    return loadFailure(`canonical [${canonical}]`, e);
   });
 };
 
 const testSchemaMetadataType: Test = ({$}) => {
-  const metadata = getSchemaMetadata($);
-  const type = metadata["@type"];
-  if (type !== "Article" && type !== "NewsArticle" && type !== "ReportageNewsArticle") {
+  if (!isArticle(getSchemaMetadata($))) {
     return WARN(`@type is not 'Article' or 'NewsArticle' or 'ReportageNewsArticle'`);
   } else {
     return PASS();
   }
 };
 
-const testSchemaMetadataRecent: Test = ({$}) => {
-  const inLastMonth = (time: number) => {
-    return  (time > Date.now() - (30 * 24 * 60 * 60 * 1000)) && (time < Date.now());
+const testJsonLd: TestList = async (context) => {
+  return Promise.all(getJsonLd(context.$).errors.map(({e, snippet}) => {
+    return FAIL(`couldn't parse JSON-LD: syntax error near [${snippet}]`).then(withLocation(context, e));
+  }));
+};
+
+const testSchemaArticle: TestList = async (context) => {
+  const article = getArticle(context.$);
+  if (!article) {
+    return []; // see testSchemaMetadataType
+  }
+  return Promise.all(validateItem(article.item, ARTICLE_SCHEMA).map(({path, message, required}) => {
+    return (required ? FAIL : WARN)(`${article.item["@type"]} ${path} ${message}`)
+      .then(withLocation(context, article.e));
+  }));
+};
+
+const testSchemaImages: TestList = async (context) => {
+  const article = getArticle(context.$);
+  if (!article) {
+    return [];
+  }
+  return Promise.all(getImages(article.item, ARTICLE_SCHEMA).map(({path, url, constraints}) => {
+    return getImageSize(context, url).then(({width, height}) => {
+      const problems = imageSizeProblems({height, width}, constraints);
+      return problems.length === 0 ? PASS() : FAIL(`${path} [${url}] ${problems.join(", ")}`);
+    }, err => loadFailure(`${path} [${url}]`, err)).then(withLocation(context, article.e));
+  })).then(res => res.filter(notPass));
+};
+
+/**
+ * The URLs of a JSON-LD image property (a URL, an ImageObject, or an array of
+ * either), resolved against `base` (if given).
+ *
+ * @param value
+ * @param base
+ */
+function getImageUrls(value: any, base?: string): string[] {
+  return ([] as any[]).concat(value || [])
+    .map(v => typeof v === "string" ? v : v && (v.url || v.contentUrl))
+    .filter(v => typeof v === "string")
+    .map(v => base ? absoluteUrl(v, base)! : v);
+}
+
+const testMetadataConsistency: TestList = async (context) => {
+  const {$, url} = context;
+  const article = getArticle($);
+  if (!article) {
+    return [];
+  }
+  const inline = getInlineMetadata($);
+  const {item} = article;
+  const publisher = item.publisher || {};
+  const res: Array<Promise<Message>> = [];
+  const compare = (property: string, actual: any, attr: string, expected: string|undefined) => {
+    if (typeof actual === "string" && expected && actual.trim() !== expected.trim()) {
+      res.push(WARN({
+        actual: `${property} "${actual}"`,
+        expected: `${property} "${expected}" (as <amp-story ${attr}>)`,
+      }));
+    }
+  };
+  compare("headline", item.headline, "title", inline.title);
+  compare("publisher.name", publisher.name, "publisher", inline.publisher);
+  const logos = getImageUrls(publisher.logo, url);
+  const logo = absoluteUrl(inline["publisher-logo-src"], url);
+  if (logos.length > 0 && logo && logos.indexOf(logo) === -1) {
+    compare("publisher.logo", logos[0], "publisher-logo-src", logo);
+  }
+  const images = getImageUrls(item.image, url);
+  (["poster-portrait-src", "poster-square-src", "poster-landscape-src"] as Array<keyof InlineMetadata>)
+    .forEach(k => {
+      const poster = absoluteUrl(inline[k], url);
+      if (images.length > 0 && poster && images.indexOf(poster) === -1) {
+        res.push(WARN({
+          actual: `image ${images.join(", ")}`,
+          expected: `image including ${poster} (as <amp-story ${k}>)`,
+        }));
+      }
+    });
+  return Promise.all(res.map(m => m.then(withLocation(context, article.e))));
+};
+
+const testSchemaMetadataRecent: Test = (context) => {
+  const {$} = context;
+  const {freshnessDays} = getOptions(context);
+  const isRecent = (time: number) => {
+    return  (time > Date.now() - (freshnessDays * 24 * 60 * 60 * 1000)) && (time < Date.now());
   };
   const metadata = getSchemaMetadata($);
   const datePublished = metadata.datePublished;
@@ -231,7 +764,7 @@ const testSchemaMetadataRecent: Test = ({$}) => {
   if (timeModified < timePublished) {
     return FAIL(`dateModified [${dateModified}] is earlier than datePublished [${datePublished}]`);
   }
-  if (inLastMonth(timePublished) && inLastMonth(timeModified)) {
+  if (isRecent(timePublished) && isRecent(timeModified)) {
     return PASS();
   } else {
     return WARN(`datePublished [${datePublished}] or dateModified [${dateModified}] is old or in the future`);
@@ -246,25 +779,16 @@ const testAmpStory: Test = ({$}) => {
   }
 };
 
-const testVideoSize: Test = (context) => {
+const testVideoSize: TestList = async (context) => {
   const {$} = context;
-  return Promise.all($(`amp-video source[type="video/mp4"][src], amp-video[src]`).map(async (i, e) => {
-    const url = absoluteUrl($(e).attr("src"), context.url);
-    const length = await getContentLength(context, url!);
-    return { url, length };
-  }).get() as any as Array<Promise<{ url: string, length: number }>>).then((args) => { // TODO(stillers): switch to Map
-    return args.reduce((a, v) => {
-      a[v.url] = v.length;
-      return a;
-    }, {} as {[url: string]: number});
-  }).then((videos) => {
-    const large = Object.keys(videos).filter((v) => videos[v] > 4000000);
-    if (large.length > 0) {
-      return FAIL(`videos over 4MB: [${large.join(",")}]`);
-    } else {
-      return PASS();
-    }
-  });
+  const {maxVideoSize} = getOptions(context);
+  return (await Promise.all($(`amp-video source[type="video/mp4"][src], amp-video[src]`).toArray().map(e => {
+    const url = absoluteUrl($(e).attr("src"), context.url)!;
+    return getContentLength(context, url).then(
+      length => length > maxVideoSize ? FAIL(`video [${url}] is over ${maxVideoSize / 1000000}MB`) : PASS(),
+      error => loadFailure(`[${url}]`, error),
+    ).then(withLocation(context, e));
+  }))).filter(notPass);
 };
 
 /**
@@ -314,7 +838,7 @@ function isStatusOk(res: Response) {
   if (res.ok) {
     return res;
    } else {
-     throw new Error(`expected status code: [2xx], actual [${res.status}]`);
+     throw Object.assign(new Error(`expected status code: [2xx], actual [${res.status}]`), {status: res.status});
    }
 }
 
@@ -353,7 +877,13 @@ function buildSourceOrigin(url: string) {
   return `${obj.protocol}//${obj.host}`;
 }
 
-function canXhrSameOrigin(context: Context, xhrUrl: string) {
+function xhrFailure(xhrUrl: string, err: Error, curl: string) {
+  return isCouldNotCheck(err) ?
+    ERROR(`couldn't check XHR [${xhrUrl}]: ${err.message} [debug: ${curl}]`, errorCode(err)) :
+    FAIL(`can't XHR [${xhrUrl}]: ${err.message} [debug: ${curl}]`);
+}
+
+function canXhrSameOrigin(context: Context, xhrUrl: string, e?: CheerioElement) {
   xhrUrl = absoluteUrl(xhrUrl, context.url)!;
   const sourceOrigin = buildSourceOrigin(context.url);
 
@@ -365,13 +895,18 @@ function canXhrSameOrigin(context: Context, xhrUrl: string) {
 
   const curl = fetchToCurl(addSourceOrigin(xhrUrl, sourceOrigin), { headers });
 
-  return fetch(addSourceOrigin(xhrUrl, sourceOrigin), {headers})
+  return fetchResource(context, addSourceOrigin(xhrUrl, sourceOrigin), {headers})
     .then(isStatusOk)
     .then(isJson)
-    .then(PASS, (e: Error) => FAIL(`can't XHR [${xhrUrl}]: ${e.message} [debug: ${curl}]`));
+    .then(PASS, (err: Error) => xhrFailure(xhrUrl, err, curl))
+    .then(withLocation(context, e));
 }
 
-async function canXhrCache(context: Context, xhrUrl: string, cacheSuffix: string) {
+async function canXhrCache(context: Context, xhrUrl: string, cacheSuffix: string, e?: CheerioElement) {
+  xhrUrl = absoluteUrl(xhrUrl, context.url)!;
+  if (localPath(context, xhrUrl) || localPath(context, context.url)) {
+    return INFO(`[${xhrUrl}] is a local file; can't check AMP Cache CORS headers`).then(withLocation(context, e));
+  }
   const sourceOrigin = buildSourceOrigin(context.url);
   const url = await createCacheUrl(cacheSuffix, context.url);
   const {parse} = require("url"); // use old API to work with node 6+
@@ -386,11 +921,12 @@ async function canXhrCache(context: Context, xhrUrl: string, cacheSuffix: string
 
   const curl = fetchToCurl(addSourceOrigin(xhrUrl, sourceOrigin), { headers });
 
-  return fetch(addSourceOrigin(xhrUrl, sourceOrigin), {headers})
+  return fetchResource(context, addSourceOrigin(xhrUrl, sourceOrigin), {headers})
     .then(isStatusOk)
     .then(isAccessControlHeaders(origin, sourceOrigin))
     .then(isJson)
-    .then(PASS, (e) => FAIL(`can't XHR [${xhrUrl}]: ${e.message} [debug: ${curl}]`));
+    .then(PASS, (err) => xhrFailure(xhrUrl, err, curl))
+    .then(withLocation(context, e));
 }
 
 const testBookendSameOrigin: Test = (context) => {
@@ -400,8 +936,9 @@ const testBookendSameOrigin: Test = (context) => {
   const bookendSrc = s1 || s2;
   if (!bookendSrc) { return WARN("amp-story-bookend missing"); }
   const bookendUrl = absoluteUrl(bookendSrc, url);
+  const e = $(s1 ? "amp-story amp-story-bookend" : "amp-story").get(0);
 
-  return canXhrSameOrigin(context, bookendUrl!);
+  return canXhrSameOrigin(context, bookendUrl!, e);
 };
 
 const testBookendCache: Test = (context) => {
@@ -411,16 +948,235 @@ const testBookendCache: Test = (context) => {
   const bookendSrc = s1 || s2;
   if (!bookendSrc) { return WARN("amp-story-bookend missing"); }
   const bookendUrl = absoluteUrl(bookendSrc, url);
+  const e = $(s1 ? "amp-story amp-story-bookend" : "amp-story").get(0);
 
-  return canXhrCache(context, bookendUrl!, "cdn.ampproject.org");
+  return canXhrCache(context, bookendUrl!, "cdn.ampproject.org", e);
 };
 
-const testVideoSource: Test = ({$}) => {
-  if ($("amp-video[src]").length > 0) {
-    return FAIL("<amp-video src> used instead of <amp-video><source/></amp-video>");
-  } else {
-    return PASS();
+/**
+ * The bookend config: either inline (a <script type="application/json"> in
+ * the <amp-story-bookend>), or loaded from the bookend's `src` (or the
+ * story's `bookend-config-src`), with the URL that URLs in the bookend are
+ * relative to. Resolves to `undefined` if there's no bookend; rejects if it
+ * can't be loaded or parsed.
+ *
+ * @param context
+ */
+async function getBookend(context: Context): Promise<{e: CheerioElement, url: string, bookend: any}|undefined> {
+  const {$} = context;
+  const inline = $("amp-story amp-story-bookend script[type='application/json']");
+  if (inline.length > 0) {
+    return {bookend: JSON.parse(inline.html() || ""), e: inline.get(0), url: context.url};
+  }
+  const s1 = $("amp-story amp-story-bookend").attr("src");
+  const s2 = $("amp-story").attr("bookend-config-src");
+  if (!s1 && !s2) {
+    return undefined;
+  }
+  const url = absoluteUrl(s1 || s2, context.url)!;
+  const e = $(s1 ? "amp-story amp-story-bookend" : "amp-story").get(0);
+  const res = await fetchResource(context, url, {headers: context.headers});
+  if (!res.ok) {
+    return Promise.reject(res);
+  }
+  const text = await res.text();
+  try {
+    return {bookend: JSON.parse(text), e, url};
+  } catch (err) {
+    throw new Error(`couldn't parse body as JSON: ${text.substring(0, 100)}`);
+  }
+}
+
+const testBookendSchema: TestList = async (context) => {
+  let config;
+  try {
+    config = await getBookend(context);
+  } catch (e) {
+    return Promise.all([loadFailure("bookend", e)]);
   }
+  if (!config) {
+    return []; // see testBookendSameOrigin
+  }
+  const {e} = config;
+  return Promise.all(bookendErrors(config.bookend).map(m => FAIL(m).then(withLocation(context, e))));
+};
+
+const testBookendResources: TestList = async (context) => {
+  const {posterRatioMin, posterRatioMax} = getOptions(context);
+  let config;
+  try {
+    config = await getBookend(context);
+  } catch (e) {
+    return []; // see testBookendSchema
+  }
+  if (!config) {
+    return [];
+  }
+  const {e, url} = config;
+  const {images, links} = getBookendResources(config.bookend);
+  const isShape = (shape: string, width: number, height: number) => {
+    switch (shape) {
+      case "square":
+        return width === height;
+      case "portrait":
+        return (width > (posterRatioMin * height)) && (width < (posterRatioMax * height));
+      default:
+        return (height > (posterRatioMin * width)) && (height < (posterRatioMax * width));
+    }
+  };
+  const SHAPES: {[shape: string]: string} = {
+    landscape: "landscape (4:3)",
+    portrait: "portrait (3:4)",
+    square: "square (1:1)",
+  };
+  const res = ([] as Array<Promise<Message>>).concat(
+    links.map(link => {
+      const linkUrl = absoluteUrl(link.url, url)!;
+      return getUrl(context, linkUrl).then(PASS, err => loadFailure(`${link.label} url [${linkUrl}]`, err));
+    }),
+    images.map(image => {
+      const imageUrl = absoluteUrl(image.url, url)!;
+      return getImageSize(context, imageUrl).then(({width, height}) => {
+        return isShape(image.shape, width, height) ?
+          PASS() :
+          WARN(`${image.label} image [${imageUrl}] is ${width}x${height}, expected ${SHAPES[image.shape]}`);
+      }, err => loadFailure(`${image.label} image [${imageUrl}]`, err));
+    }),
+  );
+  return (await Promise.all(res.map(p => p.then(withLocation(context, e))))).filter(notPass);
+};
+
+const testVideoSource: TestList = async (context) => {
+  return Promise.all(context.$("amp-video[src]").toArray().map(e => {
+    return FAIL("<amp-video src> used instead of <amp-video><source/></amp-video>").then(withLocation(context, e));
+  }));
+};
+
+const fixVideoSource: Fix = async ({$}) => {
+  return $("amp-video[src]").toArray().map(e => {
+    const src = $(e).attr("src");
+    const source = $("<source>").attr("src", src);
+    const type = CONTENT_TYPES[extname(src.replace(/[?#].*/, "")).toLowerCase()];
+    if (type) {
+      source.attr("type", type);
+    }
+    $(e).removeAttr("src").prepend(source);
+    return `replaced <amp-video src="${src}"> with a <source> child`;
+  });
+};
+
+const testVideoPoster: TestList = async (context) => {
+  const $ = context.$;
+  return Promise.all($("amp-story amp-video").toArray().map(e => {
+    return $(e).attr("poster") ?
+      PASS() :
+      FAIL("<amp-video> has no poster").then(withLocation(context, e));
+  })).then(res => res.filter(notPass));
+};
+
+// Containers and codecs (as reported by `probeVideo`) that play everywhere.
+const RECOMMENDED_CODECS: {[container: string]: string[]} = {
+  mp4: ["avc1", "avc3", "mp4a"],
+  webm: ["V_VP8", "V_VP9", "A_VORBIS", "A_OPUS"],
+};
+
+const testVideoFormat: TestList = async (context) => {
+  return Promise.all(([] as Array<Promise<Message>>).concat(...getVideoSources(context).map(({sources, video}) => {
+    const progressive = sources.filter(s => !s.streaming);
+    if (sources.length > 0 && progressive.length === 0) {
+      return [WARN("<amp-video> only has HLS/DASH sources; add an MP4 fallback").then(withLocation(context, video))];
+    }
+    return progressive.map(({e, type, url}) => getVideoInfo(context, url).then(info => {
+      const recommended = RECOMMENDED_CODECS[info.container];
+      const other = info.codecs.filter(c => recommended && recommended.indexOf(c) === -1);
+      if (!recommended) {
+        return WARN(`[${url}] container is [${info.container}], expected [${Object.keys(RECOMMENDED_CODECS)}]`);
+      } else if (type && type !== `video/${info.container}`) {
+        return WARN({actual: type, expected: `video/${info.container}`});
+      } else if (other.length > 0) {
+        return WARN(`[${url}] uses codecs [${other}] that aren't widely supported, expected [${recommended}]`);
+      } else if (info.faststart === false) {
+        return WARN(`[${url}] has its metadata (moov box) after the media data, so can't start playing until loaded`);
+      } else {
+        return PASS();
+      }
+    }, err => loadFailure(`[${url}]`, err)).then(withLocation(context, e)));
+  }))).then(res => res.filter(notPass));
+};
+
+/**
+ * Runs `check` on the info of each (non-streaming) video source, returning a
+ * (non-PASS) message for each.
+ *
+ * @param context
+ * @param check
+ */
+function testVideoInfo(context: Context, check: (url: string, info: VideoInfo) => Promise<Message>) {
+  const sources = ([] as Array<{e: CheerioElement, streaming?: string, url: string}>)
+    .concat(...getVideoSources(context).map(({sources: s}) => s))
+    .filter(s => !s.streaming);
+  return Promise.all(sources.map(({e, url}) => {
+    return getVideoInfo(context, url)
+      .then(info => check(url, info), err => loadFailure(`[${url}]`, err))
+      .then(withLocation(context, e));
+  })).then(res => res.filter(notPass));
+}
+
+const testVideoDuration: TestList = async (context) => {
+  const {maxVideoDuration} = getOptions(context);
+  return testVideoInfo(context, (url, {duration}) => {
+    return duration !== undefined && duration > maxVideoDuration ?
+      WARN(`[${url}] is ${Math.round(duration * 10) / 10}s long, expected at most ${maxVideoDuration}s`) :
+      PASS();
+  });
+};
+
+const testVideoResolution: TestList = async (context) => {
+  const {minVideoResolution, maxVideoResolution} = getOptions(context);
+  return testVideoInfo(context, (url, {width, height}) => {
+    if (width === undefined || height === undefined) {
+      return PASS();
+    }
+    const resolution = Math.min(width, height);
+    return resolution >= minVideoResolution && resolution <= maxVideoResolution ?
+      PASS() :
+      WARN({
+        actual: `${width}x${height} (${resolution}p)`,
+        expected: `${minVideoResolution}p to ${maxVideoResolution}p`,
+      });
+  });
+};
+
+const testVideoStreaming: TestList = async (context) => {
+  const sources = ([] as Array<{e: CheerioElement, streaming?: string, url: string}>)
+    .concat(...getVideoSources(context).map(({sources: s}) => s))
+    .filter(s => s.streaming);
+  return Promise.all(sources.map(({e, streaming, url}) => {
+    return getBody(context, url)
+      .then(res => res.ok ? res.text() : Promise.reject(res))
+      .then(text => {
+        const errors = streaming === "HLS" ? hlsErrors(text) : dashErrors(text);
+        return errors.length === 0 ? PASS() : FAIL(`[${url}] ${streaming} manifest: ${errors.join("; ")}`);
+      }, err => loadFailure(`${streaming} manifest [${url}]`, err))
+      .then(withLocation(context, e));
+  })).then(res => res.filter(notPass));
+};
+
+const testVideoAutoplay: TestList = async (context) => {
+  const $ = context.$;
+  return Promise.all($("amp-story amp-video").toArray().map(e => {
+    const id = $(e).attr("id");
+    const page = $(e).closest("amp-story-page");
+    const advancesAfter = !!id && page.attr("auto-advance-after") === id;
+    if (typeof $(e).attr("autoplay") !== "string") {
+      return WARN("<amp-video> in a story doesn't have autoplay").then(withLocation(context, e));
+    } else if (advancesAfter && typeof $(e).attr("loop") === "string") {
+      return WARN(`page auto-advances after <amp-video id=${id} loop>, which never ends`)
+        .then(withLocation(context, e));
+    } else {
+      return PASS();
+    }
+  })).then(res => res.filter(notPass));
 };
 
 const testAmpStoryV1: Test = ({$}) => {
@@ -428,6 +1184,15 @@ const testAmpStoryV1: Test = ({$}) => {
   return isV1 ? PASS() : WARN("amp-story-1.0.js not used (probably 0.1?)");
 };
 
+const fixAmpStoryV1: Fix = async ({$}) => {
+  const v01 = $("script[src='https://cdn.ampproject.org/v0/amp-story-0.1.js']");
+  if (v01.length === 0 || $("script[src='https://cdn.ampproject.org/v0/amp-story-1.0.js']").length > 0) {
+    return [];
+  }
+  v01.attr("src", "https://cdn.ampproject.org/v0/amp-story-1.0.js");
+  return ["replaced amp-story-0.1.js with amp-story-1.0.js"];
+};
+
 const testAmpStoryV1Metadata: Test = ({$}) => {
   const isV1 = $("script[src='https://cdn.ampproject.org/v0/amp-story-1.0.js']").length > 0;
   if (!isV1) { return PASS(); }
@@ -441,34 +1206,383 @@ const testAmpStoryV1Metadata: Test = ({$}) => {
   }
 };
 
-const testMetaCharsetFirst: Test = ({$}) => {
-  const firstChild = $("head *:first-child");
-  const charset = firstChild.attr("charset");
-  return !charset ? FAIL(`<meta charset> not the first <meta> tag`) : PASS();
+/**
+ * The first <meta> with the `property` (Open Graph) or `name` (Twitter) `key`.
+ *
+ * @param $
+ * @param key
+ */
+function getMeta($: CheerioStatic, key: string): {e?: CheerioElement, content?: string} {
+  const e = $(`meta[property="${key}"], meta[name="${key}"]`).get(0);
+  return e ? {content: $(e).attr("content"), e} : {};
+}
+
+const TWITTER_CARDS = ["summary", "summary_large_image", "app", "player"];
+
+// Minimum image sizes for social previews.
+const OG_IMAGE_MIN = {height: 630, width: 1200};
+const TWITTER_IMAGE_MIN: {[card: string]: {width: number, height: number}} = {
+  summary: {height: 144, width: 144},
+  summary_large_image: {height: 157, width: 300},
 };
 
-const testRuntimePreloaded: Test = ({$}) => {
-  const attr = [
-    "href='https://cdn.ampproject.org/v0.js'",
-    "rel='preload'",
-    "as='script'"
-  ].map(s => `[${s}]`).join("");
-  const isPreloaded = $(`link${attr}`).length > 0;
-  return isPreloaded ?
+const testOpenGraph: TestList = async (context) => {
+  const {$, url} = context;
+  const res: Array<Promise<Message>> = [];
+  const missing = ["og:title", "og:type", "og:image", "og:url"].filter(k => !getMeta($, k).content);
+  if (missing.length > 0) {
+    res.push(WARN(`Open Graph tag(s) missing: [${missing.join(", ")}]`));
+  }
+  const type = getMeta($, "og:type");
+  if (type.content && type.content !== "article") {
+    res.push(WARN({actual: type.content, expected: "article"}).then(withLocation(context, type.e)));
+  }
+  const title = getMeta($, "og:title");
+  const storyTitle = $("amp-story").attr("title");
+  if (title.content && storyTitle && title.content.trim() !== storyTitle.trim()) {
+    res.push(WARN({actual: title.content, expected: storyTitle}).then(withLocation(context, title.e)));
+  }
+  const ogUrl = getMeta($, "og:url");
+  const canonical = absoluteUrl($('link[rel="canonical"]').attr("href"), url);
+  if (ogUrl.content && canonical && absoluteUrl(ogUrl.content, url) !== canonical) {
+    res.push(WARN({actual: absoluteUrl(ogUrl.content, url), expected: canonical}).then(withLocation(context, ogUrl.e)));
+  }
+  return Promise.all(res);
+};
+
+const testTwitterCard: TestList = async (context) => {
+  const {$} = context;
+  const card = getMeta($, "twitter:card");
+  if (!card.content) {
+    return Promise.all([WARN("<meta name=twitter:card> is missing")]);
+  }
+  const res: Array<Promise<Message>> = [];
+  if (TWITTER_CARDS.indexOf(card.content) === -1) {
+    res.push(WARN({actual: card.content, expected: TWITTER_CARDS.join(" or ")}).then(withLocation(context, card.e)));
+  }
+  // Twitter falls back to the Open Graph tags.
+  const missing = ["title", "image"].filter(k => !getMeta($, `twitter:${k}`).content && !getMeta($, `og:${k}`).content);
+  if (missing.length > 0) {
+    res.push(WARN(`twitter:${missing.join(" and twitter:")} (or og:${missing.join(" and og:")}) missing`));
+  }
+  return Promise.all(res);
+};
+
+const testSocialImages: TestList = async (context) => {
+  const {$, url} = context;
+  const check = (key: string, min: {width: number, height: number}) => {
+    const meta = getMeta($, key);
+    if (!meta.content) {
+      return PASS();
+    }
+    const src = absoluteUrl(meta.content, url)!;
+    return getImageSize(context, src).then(({width, height}) => {
+      return width >= min.width && height >= min.height ?
+        PASS() :
+        WARN({actual: `${key} ${width}x${height}`, expected: `${key} at least ${min.width}x${min.height}`});
+    }, e => loadFailure(`${key} [${src}]`, e)).then(withLocation(context, meta.e));
+  };
+  const card = getMeta($, "twitter:card").content || "";
+  const res = [check("og:image", OG_IMAGE_MIN)];
+  if (card in TWITTER_IMAGE_MIN) {
+    res.push(check(getMeta($, "twitter:image").content ? "twitter:image" : "og:image", TWITTER_IMAGE_MIN[card]));
+  }
+  return (await Promise.all(res)).filter(notPass);
+};
+
+const testFavicon: Test = ({$}) => {
+  const icons = $("link[rel]").filter((i, e) => $(e).attr("rel").toLowerCase().split(/\s+/).indexOf("icon") !== -1);
+  return icons.length > 0 && icons.attr("href") ? PASS() : WARN("<link rel=icon> not specified");
+};
+
+const testManifest: Test = async (context) => {
+  const {$, url} = context;
+  const href = $('link[rel="manifest"]').attr("href");
+  if (!href) {
+    return INFO("<link rel=manifest> not specified");
+  }
+  const manifestUrl = absoluteUrl(href, url)!;
+  const e = $('link[rel="manifest"]').get(0);
+  try {
+    const res = await fetchResource(context, manifestUrl, {headers: context.headers});
+    if (!res.ok) {
+      return loadFailure(`manifest [${manifestUrl}]`, res).then(withLocation(context, e));
+    }
+    const text = await res.text();
+    let manifest: any;
+    try {
+      manifest = JSON.parse(text);
+    } catch (err) {
+      return FAIL(`couldn't parse manifest [${manifestUrl}] as JSON: ${text.substring(0, 100)}`)
+        .then(withLocation(context, e));
+    }
+    if (!manifest || typeof manifest !== "object") {
+      return WARN(`manifest [${manifestUrl}] is not a JSON object`).then(withLocation(context, e));
+    }
+    const missing = [
+      manifest.name || manifest.short_name ? "" : "name",
+      Array.isArray(manifest.icons) && manifest.icons.length > 0 ? "" : "icons",
+    ].filter(Boolean);
+    return missing.length === 0 ?
+      PASS() :
+      WARN(`manifest [${manifestUrl}] has no ${missing.join(" or ")}`).then(withLocation(context, e));
+  } catch (err) {
+    return loadFailure(`manifest [${manifestUrl}]`, err).then(withLocation(context, e));
+  }
+};
+
+const testStoryDiscovery: TestList = async (context) => {
+  const {$} = context;
+  const res: Array<Promise<Message>> = [];
+  const robots = $('meta[name="robots"]');
+  if ((robots.attr("content") || "").toLowerCase().match(/noindex|none/)) {
+    res.push(WARN({actual: robots.attr("content"), expected: "indexable (no noindex)"})
+      .then(withLocation(context, robots.get(0))));
+  }
+  if (!($('meta[name="description"]').attr("content") || "").trim()) {
+    res.push(WARN("<meta name=description> not specified"));
+  }
+  // Used to display the story in discovery surfaces other than the (portrait)
+  // story viewer.
+  const posters = ["poster-square-src", "poster-landscape-src"].filter(a => !$("amp-story").attr(a));
+  if ($("amp-story").length > 0 && posters.length > 0) {
+    res.push(WARN(`<amp-story> has no [${posters.join(", ")}]`).then(withLocation(context, $("amp-story").get(0))));
+  }
+  return Promise.all(res);
+};
+
+const testMetaCharsetFirst: Test = (context) => {
+  const firstChild = context.$("head *:first-child");
+  const charset = firstChild.attr("charset");
+  return !charset ?
+    FAIL(`<meta charset> not the first <meta> tag`).then(withLocation(context, firstChild.get(0))) : PASS();
+};
+
+const fixMetaCharsetFirst: Fix = async ({$}) => {
+  const head = $("head");
+  const first = head.children().first();
+  if (first.length === 0 || first.attr("charset")) {
+    return [];
+  }
+  const meta = head.children("meta[charset]").first();
+  if (meta.length > 0) {
+    insertBefore($, $.html(detach($, meta)), first);
+    return ["moved <meta charset> to the start of <head>"];
+  }
+  insertBefore($, `<meta charset="utf-8">`, first);
+  return [`added <meta charset="utf-8"> to the start of <head>`];
+};
+
+const testRuntimePreloaded: Test = ({$}) => {
+  const attr = [
+    "href='https://cdn.ampproject.org/v0.js'",
+    "rel='preload'",
+    "as='script'"
+  ].map(s => `[${s}]`).join("");
+  const isPreloaded = $(`link${attr}`).length > 0;
+  return isPreloaded ?
     PASS() : WARN("<link href=https://cdn.ampproject.org/v0.js rel=preload> is missing");
 };
 
-const testMostlyText: Test = ({$}) => {
+const fixRuntimePreloaded: Fix = async ({$}) => {
+  const link = `<link rel="preload" as="script" href="https://cdn.ampproject.org/v0.js">`;
+  // After the <meta> tags (<meta charset> must come first).
+  const before = $("head").children().not("meta").first();
+  if (before.length === 0) {
+    return [];
+  }
+  insertBefore($, link, before);
+  return [`added ${link}`];
+};
+
+const testMostlyText: Test = (context) => {
+  const {$} = context;
   const text = $("amp-story").text();
-  if (text.length > 100) {
+  if (text.length > getOptions(context).minTextLength) {
     return PASS();
   } else {
     return WARN(`minimal text in the story [${text}]`);
   }
 };
 
+const LAYER_TEMPLATES = ["fill", "vertical", "horizontal", "thirds"];
+
+/**
+ * The pages of the story, each with a label for use in messages: the id, or
+ * the (1-based) position if the page doesn't have one.
+ *
+ * @param $
+ */
+function getPages($: CheerioStatic): Array<{e: CheerioElement, label: string}> {
+  return $("amp-story amp-story-page").toArray().map((e, i) => {
+    const id = $(e).attr("id");
+    return {e, label: id ? `#${id}` : `${i + 1}`};
+  });
+}
+
+/**
+ * The length of the text (with whitespace collapsed), and the number of
+ * images and videos, in each page.
+ *
+ * @param $
+ */
+function getPageContent($: CheerioStatic) {
+  return getPages($).map(({e, label}) => ({
+    e,
+    images: $(e).find("amp-img, amp-anim").length,
+    label,
+    text: $(e).text().replace(/\s+/g, " ").trim().length,
+    videos: $(e).find("amp-video").length,
+  }));
+}
+
+const testPageIds: TestList = async (context) => {
+  const $ = context.$;
+  const pages = getPages($);
+  const ids = pages.map(({e}) => $(e).attr("id"));
+  return Promise.all(pages.map(({e, label}, i) => {
+    const id = ids[i];
+    if (!id) {
+      return FAIL(`[page ${label}] has no id`).then(withLocation(context, e));
+    } else if (ids.indexOf(id) !== i) {
+      return FAIL(`[page ${label}] id is not unique`).then(withLocation(context, e));
+    } else {
+      return PASS();
+    }
+  })).then(res => res.filter(notPass));
+};
+
+const testPageLayers: TestList = async (context) => {
+  const $ = context.$;
+  return Promise.all(getPages($).map(({e, label}) => {
+    return $(e).children("amp-story-grid-layer").length > 0 ?
+      PASS() :
+      FAIL(`[page ${label}] has no <amp-story-grid-layer>`).then(withLocation(context, e));
+  })).then(res => res.filter(notPass));
+};
+
+const testPageCount: Test = (context) => {
+  const {minPages, maxPages} = getOptions(context);
+  const n = getPages(context.$).length;
+  if (n < minPages || n > maxPages) {
+    return WARN({actual: `${n} pages`, expected: `${minPages} to ${maxPages} pages`});
+  } else {
+    return PASS();
+  }
+};
+
+const testEmptyPages: TestList = async (context) => {
+  return Promise.all(getPageContent(context.$).map(({e, images, label, text, videos}) => {
+    return (text === 0 && images === 0 && videos === 0) ?
+      WARN(`[page ${label}] has no text, images or videos`).then(withLocation(context, e)) :
+      PASS();
+  })).then(res => res.filter(notPass));
+};
+
+const testLayerTemplates: TestList = async (context) => {
+  const $ = context.$;
+  return Promise.all(getPages($).map(({e, label}) => {
+    return Promise.all($(e).children("amp-story-grid-layer").toArray().map((layer) => {
+      const template = $(layer).attr("template");
+      if (LAYER_TEMPLATES.indexOf(template) !== -1) {
+        return PASS();
+      }
+      return FAIL(!template ?
+        `[page ${label}] <amp-story-grid-layer> has no template` :
+        `[page ${label}] <amp-story-grid-layer> template [${template}] is not one of [${LAYER_TEMPLATES.join(", ")}]`
+      ).then(withLocation(context, layer));
+    }));
+  })).then(res => ([] as Message[]).concat(...res).filter(notPass));
+};
+
+const testPageContent: TestList = async (context) => {
+  return Promise.all(getPageContent(context.$).map(({e, images, label, text, videos}) => {
+    return INFO(`[page ${label}] ${text} characters of text, ${images} images, ${videos} videos`)
+      .then(withLocation(context, e));
+  }));
+};
+
+const testImgAlt: TestList = async (context) => {
+  const $ = context.$;
+  return Promise.all($("amp-story amp-img, amp-story amp-anim").toArray().map(e => {
+    const decorative = $(e).attr("role") === "presentation" || $(e).attr("aria-hidden") === "true";
+    if (typeof $(e).attr("alt") === "string" || decorative) {
+      return PASS();
+    }
+    return FAIL(`<${e.name} src=${$(e).attr("src")}> has no alt attribute`).then(withLocation(context, e));
+  })).then(res => res.filter(notPass));
+};
+
+const testVideoCaptions: TestList = async (context) => {
+  const $ = context.$;
+  return Promise.all($("amp-story amp-video").toArray().map(e => {
+    const tracks = $(e).find('track[kind="captions"], track[kind="subtitles"]').length;
+    if (tracks > 0 || typeof $(e).attr("noaudio") === "string" || $(e).attr("captions-id")) {
+      return PASS();
+    }
+    return WARN("<amp-video> with audio has no captions (<track kind=captions>)").then(withLocation(context, e));
+  })).then(res => res.filter(notPass));
+};
+
+const testContrast: TestList = async (context) => {
+  const $ = context.$;
+  const {minContrastRatio, minContrastRatioLarge} = getOptions(context);
+  return Promise.all($("amp-story [style]").toArray().map(e => {
+    const style = parseDeclarations($(e).attr("style"));
+    const color = parseColor(style.color);
+    // Only inline colors are considered: the nearest background color
+    // declared on the element or an ancestor within the story.
+    const background = [e].concat($(e).parentsUntil("amp-story").toArray())
+      .map(n => backgroundColor(parseDeclarations($(n).attr("style") || "")))
+      .filter(c => c)[0];
+    if (!color || !background || $(e).text().trim() === "") {
+      return PASS();
+    }
+    const size = fontSizePx(style["font-size"]);
+    const bold = !!(style["font-weight"] || "").match(/bold|[6-9]00/);
+    // WCAG "large text": at least 18pt, or 14pt bold.
+    const large = size !== undefined && (size >= 24 || (bold && size >= 18.66));
+    const min = large ? minContrastRatioLarge : minContrastRatio;
+    const ratio = contrastRatio(color, background);
+    return ratio >= min ?
+      PASS() :
+      WARN(`text contrast ratio [${ratio.toFixed(2)}:1] is less than ${min}:1`).then(withLocation(context, e));
+  })).then(res => res.filter(notPass));
+};
+
+const testHtmlLang: Test = ({$}) => {
+  if (($("html").attr("lang") || "").trim()) {
+    return PASS();
+  } else {
+    return FAIL("<html lang> not specified");
+  }
+};
+
+const testFontSize: TestList = async (context) => {
+  const $ = context.$;
+  const {minFontSize} = getOptions(context);
+  const isSmall = (v: string|undefined) => {
+    const px = fontSizePx(v);
+    return px !== undefined && px < minFontSize;
+  };
+  const inline = $("amp-story [style]").toArray().map(e => {
+    const v = parseDeclarations($(e).attr("style"))["font-size"];
+    return isSmall(v) ?
+      WARN(`font-size [${v}] is less than ${minFontSize}px`).then(withLocation(context, e)) :
+      PASS();
+  });
+  const custom = $("style[amp-custom]").toArray().map(e => {
+    return parseRules($(e).html() || "").filter(r => isSmall(r.declarations["font-size"])).map(r => {
+      return WARN(`[${r.selector}] font-size [${r.declarations["font-size"]}] is less than ${minFontSize}px`)
+        .then(withLocation(context, e));
+    });
+  });
+  return Promise.all(inline.concat(...custom)).then(res => res.filter(notPass));
+};
+
 const testThumbnails: TestList = async (context) => {
   const $ = context.$;
+  const {posterRatioMin, posterRatioMax} = getOptions(context);
   async function isSquare(url: string|undefined) {
     if (!url) { return false; }
     const {width, height} = await getImageSize(context, absoluteUrl(url, context.url)!);
@@ -477,12 +1591,12 @@ const testThumbnails: TestList = async (context) => {
   async function isPortrait(url: string|undefined) {
     if (!url) { return false; }
     const {width, height} = await getImageSize(context, absoluteUrl(url, context.url)!);
-    return (width > (0.74 * height)) && (width < (0.76 * height));
+    return (width > (posterRatioMin * height)) && (width < (posterRatioMax * height));
   }
   async function isLandscape(url: string|undefined) {
     if (!url) { return false; }
     const {width, height} = await getImageSize(context, absoluteUrl(url, context.url)!);
-    return (height > (0.74 * width)) && (height < (0.76 * width));
+    return (height > (posterRatioMin * width)) && (height < (posterRatioMax * width));
   }
   const inlineMetadata = getInlineMetadata($);
 
@@ -493,7 +1607,7 @@ const testThumbnails: TestList = async (context) => {
     const v = inlineMetadata[k];
     return isSquare(v).then(
       r => r ? PASS() : FAIL(`[${k}] (${v}) is missing or not square (1:1)`),
-      e => FAIL(`[${k}] (${v}) status not 200`)
+      e => loadFailure(`[${k}] (${v})`, e)
     );
   })());
 
@@ -502,7 +1616,7 @@ const testThumbnails: TestList = async (context) => {
     const v = inlineMetadata[k];
     return isPortrait(v).then(
       r => r ? PASS() : FAIL(`[${k}] (${v}) is missing or not portrait (3:4)`),
-      e => FAIL(`[${k}] (${v}) status not 200`)
+      e => loadFailure(`[${k}] (${v})`, e)
     );
   })());
 
@@ -512,7 +1626,7 @@ const testThumbnails: TestList = async (context) => {
     if (v) {
       res.push(isSquare(v).then(
         r => r ? PASS() : FAIL(`[${k}] (${v}) is not square (1x1)`),
-        e => FAIL(`[${k}] (${v}) status not 200`)
+        e => loadFailure(`[${k}] (${v})`, e)
       ));
     }
   })();
@@ -523,7 +1637,7 @@ const testThumbnails: TestList = async (context) => {
     if (v) {
       res.push(isLandscape(v).then(
         r => r ? PASS() : FAIL(`[${k}] (${v}) is not landscape (4:3)`),
-        e => FAIL(`[${k}] (${v}) status not 200`)
+        e => loadFailure(`[${k}] (${v})`, e)
       ));
     }
   })();
@@ -535,37 +1649,32 @@ const testSingleAmpImg = (
     context: Context,
     { src, expectedWidth, expectedHeight }: { src: string, expectedWidth: number, expectedHeight: number }
   ): Promise<Message> => {
+  const {imgRatioTolerance, imgMinAreaFactor, imgMaxAreaFactor} = getOptions(context);
   const success = ({height, width}: {height: number, width: number}): Promise<Message> => {
     const actualHeight = height;
     const actualWidth = width;
     const actualRatio = Math.floor(actualWidth * 100 / actualHeight) / 100;
     const expectedRatio = Math.floor(expectedWidth * 100 / expectedHeight) / 100;
-    if (Math.abs(actualRatio - expectedRatio) > 0.015) {
+    if (Math.abs(actualRatio - expectedRatio) > imgRatioTolerance) {
       const actualString = `${actualWidth}/${actualHeight} = ${actualRatio}`;
       const expectedString = `${expectedWidth}/${expectedHeight} = ${expectedRatio}`;
       return FAIL(`[${src}]: actual ratio [${actualString}] does not match specified [${expectedString}]`);
     }
     const actualVolume = actualWidth * actualHeight;
     const expectedVolume = expectedWidth * expectedHeight;
-    if (expectedVolume < (0.25 * actualVolume)) {
+    if (expectedVolume < (imgMinAreaFactor * actualVolume)) {
       const actualString = `${actualWidth}x${actualHeight}`;
       const expectedString = `${expectedWidth}x${expectedHeight}`;
       return WARN(`[${src}]: actual dimensions [${actualString}] are much larger than specified [${expectedString}]`);
     }
-    if (expectedVolume > (1.5 * actualVolume)) {
+    if (expectedVolume > (imgMaxAreaFactor * actualVolume)) {
       const actualString = `${actualWidth}x${actualHeight}`;
       const expectedString = `${expectedWidth}x${expectedHeight}`;
       return WARN(`[${src}]: actual dimensions [${actualString}] are much smaller than specified [${expectedString}]`);
     }
     return PASS();
   };
-  const fail = (e: {statusCode: number}) => {
-    if (e.statusCode === undefined) {
-      return FAIL(`[${src}] ${JSON.stringify(e)}`);
-    } else {
-      return FAIL(`[${src}] returned status ${e.statusCode}`);
-    }
-  };
+  const fail = (e: any) => loadFailure(`[${src}]`, e);
   return getImageSize(context, absoluteUrl(src, context.url)!).then(success, fail);
 
 };
@@ -577,97 +1686,1166 @@ const testAmpImg: TestList = async (context) => {
     const src = $(e).attr("src");
     const expectedHeight = parseInt($(e).attr("height"), 10);
     const expectedWidth = parseInt($(e).attr("width"), 10);
-    return testSingleAmpImg(context, { src, expectedHeight, expectedWidth });
+    return testSingleAmpImg(context, { src, expectedHeight, expectedWidth }).then(withLocation(context, e));
   }).get() as any as Array<Promise<Message>>)).filter(notPass);
 };
 
+const fixAmpImg: Fix = async (context) => {
+  const $ = context.$;
+  const {imgRatioTolerance} = getOptions(context);
+  const ratio = (width: number, height: number) => Math.floor(width * 100 / height) / 100;
+  const res = await Promise.all($("amp-img").toArray().map(async (e): Promise<string[]> => {
+    const src = $(e).attr("src");
+    const width = parseInt($(e).attr("width"), 10);
+    const height = parseInt($(e).attr("height"), 10);
+    if (!src || !width || !height) {
+      return [];
+    }
+    const actual = await getImageSize(context, src).catch(() => undefined);
+    if (!actual || Math.abs(ratio(actual.width, actual.height) - ratio(width, height)) <= imgRatioTolerance) {
+      return [];
+    }
+    const fixed = Math.round(width * actual.height / actual.width);
+    $(e).attr("height", `${fixed}`);
+    return [`changed the height of <amp-img src="${src}"> from ${height} to ${fixed}`];
+  }));
+  return ([] as string[]).concat(...res);
+};
+
+function formatBytes(n: number) {
+  return n >= 1000000 ? `${Math.round(n / 100000) / 10}MB` : `${Math.round(n / 1000)}KB`;
+}
+
+/**
+ * The size (CSS px) an <amp-img> is (at most) rendered at: the viewport if it
+ * fills the screen, otherwise its specified size, scaled down to fit the
+ * width of the viewport.
+ *
+ * @param context
+ * @param e
+ */
+function getRenderedSize(context: Context, e: CheerioElement) {
+  const $ = context.$;
+  const {viewportWidth, viewportHeight} = getOptions(context);
+  const width = parseInt($(e).attr("width"), 10);
+  const height = parseInt($(e).attr("height"), 10);
+  const layout = ($(e).attr("layout") || "").toLowerCase();
+  const fill = layout === "fill" || $(e).parent('amp-story-grid-layer[template="fill"]').length > 0;
+  if (fill || !width || !height) {
+    return {height: viewportHeight, width: viewportWidth};
+  }
+  const fixed = ["", "fixed", "intrinsic"].indexOf(layout) !== -1; // (fixed is the default)
+  const scale = fixed ? Math.min(1, viewportWidth / width) : viewportWidth / width;
+  return {height: Math.round(height * scale), width: Math.round(width * scale)};
+}
+
+/**
+ * Runs `check` on each <amp-img> and <amp-anim> in the story (except
+ * fallbacks, which are only loaded if the image fails), returning the
+ * (non-PASS) messages. Images that can't be loaded are skipped, since
+ * `testAmpImg` reports those.
+ *
+ * @param context
+ * @param check
+ */
+function testStoryImages(
+  context: Context,
+  check: (e: CheerioElement, src: string, image: {width: number, height: number, mime: string, bytes: number}) =>
+    Promise<Message>,
+) {
+  const $ = context.$;
+  const images = $("amp-story amp-img[src], amp-story amp-anim[src]").toArray().filter(e => !$(e).is("[fallback]"));
+  return Promise.all(images.map(e => {
+    const src = $(e).attr("src");
+    return getImageSize(context, src)
+      .then(image => check(e, src, image), () => PASS())
+      .then(withLocation(context, e));
+  })).then(res => res.filter(notPass));
+}
+
+const testImgWeight: TestList = async (context) => {
+  const {maxImageSize} = getOptions(context);
+  return testStoryImages(context, (e, src, {bytes}) => {
+    return bytes > maxImageSize ?
+      WARN(`[${src}] is ${formatBytes(bytes)}, expected at most ${formatBytes(maxImageSize)}`) :
+      PASS();
+  });
+};
+
+const testImgOversized: TestList = async (context) => {
+  const {imgMaxDensity} = getOptions(context);
+  return testStoryImages(context, (e, src, {width, height}) => {
+    const rendered = getRenderedSize(context, e);
+    // Only oversized if it would still cover the rendered area if scaled down.
+    return width > rendered.width * imgMaxDensity && height > rendered.height * imgMaxDensity ?
+      WARN(`[${src}] is ${width}x${height}, but is rendered at ${rendered.width}x${rendered.height} (at most ` +
+        `${rendered.width * imgMaxDensity}x${rendered.height * imgMaxDensity} needed at ${imgMaxDensity}x)`) :
+      PASS();
+  });
+};
+
+const testImgSrcset: TestList = async (context) => {
+  const $ = context.$;
+  const {largeImageSize} = getOptions(context);
+  return testStoryImages(context, (e, src, {bytes}) => {
+    return bytes > largeImageSize && !$(e).attr("srcset") ?
+      WARN(`[${src}] is ${formatBytes(bytes)} but has no srcset`) :
+      PASS();
+  });
+};
+
+const testImgFormat: TestList = async (context) => {
+  const $ = context.$;
+  const {largeImageSize} = getOptions(context);
+  return testStoryImages(context, (e, src, {bytes, mime}) => {
+    // <amp-img src=image.webp><amp-img fallback src=image.jpg> already serves
+    // a modern format where supported.
+    const hasFallback = $(e).children("amp-img[fallback]").length > 0;
+    return bytes > largeImageSize && (mime === "image/jpeg" || mime === "image/png") && !hasFallback ?
+      INFO(`[${src}] is a ${formatBytes(bytes)} ${mime.split("/")[1].toUpperCase()}; WebP or AVIF would be smaller`) :
+      PASS();
+  });
+};
+
+const testPageWeight: Test = async (context) => {
+  const $ = context.$;
+  const {maxPageWeight} = getOptions(context);
+  const metadata = getInlineMetadata($);
+  const urls = ([] as Array<string|undefined>).concat(
+    $("amp-story amp-img[src], amp-story amp-anim[src]").toArray().filter(e => !$(e).is("[fallback]"))
+      .map(e => $(e).attr("src")),
+    $("amp-story amp-video[poster]").toArray().map(e => $(e).attr("poster")),
+    (Object.keys(metadata) as Array<keyof InlineMetadata>).filter(k => /src$/.test(k)).map(k => metadata[k]),
+  ).filter(s => s).map(s => absoluteUrl(s, context.url)!).filter((u, i, a) => a.indexOf(u) === i);
+  // Images that can't be loaded are reported by other rules.
+  const sizes = await Promise.all(urls.map(url => getImageSize(context, url).then(({bytes}) => bytes, () => 0)));
+  const total = sizes.reduce((a, b) => a + b, Buffer.byteLength(context.source || $.html()));
+  return total > maxPageWeight ?
+    WARN({actual: `${formatBytes(total)} (${urls.length} images)`, expected: `at most ${formatBytes(maxPageWeight)}`}) :
+    PASS();
+};
+
 const testCorsSameOrigin: TestList = async (context) => {
-  const corsEndpoints = getCorsEndpoints(context.$);
-  return (await Promise.all(corsEndpoints.map(s => canXhrSameOrigin(context, s)))).filter(notPass);
+  const corsEndpoints = getCorsEndpointElements(context.$);
+  return (await Promise.all(corsEndpoints.map(({src, e}) => canXhrSameOrigin(context, src, e)))).filter(notPass);
 };
 
 const testCorsCache: TestList = async (context) => {
   // Cartesian product from https://stackoverflow.com/a/43053803/11543
   const cartesian = (a: any, b: any) => [].concat(...a.map((d: any) => b.map((e: any) => [].concat(d, e))));
-  const corsEndpoints = getCorsEndpoints(context.$);
+  const corsEndpoints = getCorsEndpointElements(context.$);
   const caches = (require("./caches.json").caches as Array<{ cacheDomain: string }>).map(c => c.cacheDomain);
-  const product = cartesian(corsEndpoints, caches);
+  const product = cartesian(corsEndpoints, caches) as Array<[{src: string, e: CheerioElement}, string]>;
   return (await Promise.all(
-    product.map(([xhrUrl, cacheSuffix]) => canXhrCache(context, xhrUrl, cacheSuffix))
+    product.map(([{src, e}, cacheSuffix]) => canXhrCache(context, src, cacheSuffix, e))
   )).filter(notPass);
 };
 
-const testAll = async (context: Context): Promise<{[key: string]: Message}> => {
-  const tests = [
-    testValidity,
-    testCanonical,
-    testAmpStory,
-    testAmpStoryV1,
-    testAmpStoryV1Metadata,
-    testSchemaMetadataRecent,
-    testSchemaMetadataType,
-    testBookendSameOrigin,
-    testBookendCache,
-    testVideoSource,
-    testVideoSize,
-    testMostlyText,
-    testRuntimePreloaded,
-    testThumbnails,
-    testMetaCharsetFirst,
-    testAmpImg,
-    testCorsSameOrigin,
-    testCorsCache,
-  ];
-  const res = await Promise.all(tests.map(async (testFn) => {
-    const v = await testFn(context);
-    return [
-      testFn.name.substring("test".length).toLowerCase(), // key
-      v, // value
-    ];
-  })) as Array<[string, Message]>; // not sure why this cast is necessary, but...
-  return res.reduce((a: {[key: string]: Message}, kv: [string, Message]) => {
-    a[kv[0]] = kv[1];
-    return a;
-  }, {});
+export type Severity = "FAIL"|"WARN"|"INFO";
+
+export type Category = "validity"|"structure"|"metadata"|"media"|"accessibility"|"cors"|"performance";
+
+/**
+ * A lint rule. The `id` is used as the key in the results returned by
+ * `testAll()`, and so must not change once published.
+ */
+export interface Rule {
+  readonly id: string;
+  readonly severity: Severity;
+  readonly category: Category;
+  readonly description: string;
+  readonly url: string;
+  readonly test: Test|TestList;
+  /** Whether the rule fetches resources (and so can't be run offline). */
+  readonly network?: boolean;
+  /** Fixes the problems found by `test`, if they're mechanical; see `fixAll()`. */
+  readonly fix?: Fix;
+}
+
+const DOCS_AMP_STORY = "https://www.ampproject.org/docs/reference/components/amp-story";
+const DOCS_BOOKEND = "https://www.ampproject.org/docs/reference/components/amp-story-bookend";
+const DOCS_AMP_VIDEO = "https://www.ampproject.org/docs/reference/components/amp-video";
+const DOCS_IMAGES = [
+  "https://developers.google.com/web/fundamentals/performance",
+  "optimizing-content-efficiency/image-optimization",
+].join("/");
+const DOCS_TWITTER_CARDS = "https://developer.twitter.com/en/docs/tweets/optimize-with-cards/overview/markup";
+const DOCS_CORS = "https://www.ampproject.org/docs/fundamentals/amp-cors-requests";
+const DOCS_ARTICLE = "https://developers.google.com/search/docs/data-types/article";
+
+const RULES: Rule[] = [
+  {
+    category: "validity",
+    description: "Document is valid AMP",
+    id: "validity",
+    severity: "FAIL",
+    test: testValidity,
+    url: "https://www.ampproject.org/docs/fundamentals/validate",
+  },
+  {
+    category: "metadata",
+    description: "Document is self-canonical",
+    id: "canonical",
+    network: true,
+    severity: "FAIL",
+    test: testCanonical,
+    url: "https://www.ampproject.org/docs/fundamentals/discovery",
+  },
+  {
+    category: "validity",
+    description: "Document contains a single <amp-story standalone>",
+    id: "ampstory",
+    severity: "FAIL",
+    test: testAmpStory,
+    url: DOCS_AMP_STORY,
+  },
+  {
+    category: "validity",
+    description: "amp-story-1.0.js is used instead of 0.1",
+    fix: fixAmpStoryV1,
+    id: "ampstoryv1",
+    severity: "WARN",
+    test: testAmpStoryV1,
+    url: `${DOCS_AMP_STORY}#migrating-from-0.1-to-1.0`,
+  },
+  {
+    category: "metadata",
+    description: "<amp-story> has the attributes required by 1.0",
+    id: "ampstoryv1metadata",
+    severity: "WARN",
+    test: testAmpStoryV1Metadata,
+    url: `${DOCS_AMP_STORY}#metadata-guidelines`,
+  },
+  {
+    category: "metadata",
+    description: "JSON-LD blocks can be parsed",
+    id: "jsonld",
+    severity: "FAIL",
+    test: testJsonLd,
+    url: "https://json-ld.org/",
+  },
+  {
+    category: "metadata",
+    description: "The schema.org Article has the required and recommended properties",
+    id: "schemaarticle",
+    severity: "FAIL",
+    test: testSchemaArticle,
+    url: DOCS_ARTICLE,
+  },
+  {
+    category: "metadata",
+    description: "The Article image and publisher logo are the right size",
+    id: "schemaimages",
+    network: true,
+    severity: "FAIL",
+    test: testSchemaImages,
+    url: DOCS_ARTICLE,
+  },
+  {
+    category: "metadata",
+    description: "The Article's headline, publisher and images match the <amp-story> metadata",
+    id: "metadataconsistency",
+    severity: "WARN",
+    test: testMetadataConsistency,
+    url: `${DOCS_AMP_STORY}#metadata-guidelines`,
+  },
+  {
+    category: "metadata",
+    description: "Open Graph tags are present and match the story",
+    id: "opengraph",
+    severity: "WARN",
+    test: testOpenGraph,
+    url: "http://ogp.me/",
+  },
+  {
+    category: "metadata",
+    description: "A Twitter card is specified",
+    id: "twittercard",
+    severity: "WARN",
+    test: testTwitterCard,
+    url: DOCS_TWITTER_CARDS,
+  },
+  {
+    category: "metadata",
+    description: "Open Graph and Twitter card images are large enough",
+    id: "socialimages",
+    network: true,
+    severity: "WARN",
+    test: testSocialImages,
+    url: DOCS_TWITTER_CARDS,
+  },
+  {
+    category: "metadata",
+    description: "A favicon is specified",
+    id: "favicon",
+    severity: "WARN",
+    test: testFavicon,
+    url: "https://developer.mozilla.org/en-US/docs/Web/HTML/Link_types",
+  },
+  {
+    category: "metadata",
+    description: "The web app manifest (if any) can be loaded, and has a name and icons",
+    id: "manifest",
+    network: true,
+    severity: "WARN",
+    test: testManifest,
+    url: "https://developer.mozilla.org/en-US/docs/Web/Manifest",
+  },
+  {
+    category: "metadata",
+    description: "The story is indexable, has a description, and square and landscape posters",
+    id: "storydiscovery",
+    severity: "WARN",
+    test: testStoryDiscovery,
+    url: `${DOCS_AMP_STORY}#metadata-guidelines`,
+  },
+  {
+    category: "metadata",
+    description: "datePublished and dateModified are present and recent",
+    id: "schemametadatarecent",
+    severity: "FAIL",
+    test: testSchemaMetadataRecent,
+    url: DOCS_ARTICLE,
+  },
+  {
+    category: "metadata",
+    description: "Schema.org @type is Article, NewsArticle or ReportageNewsArticle",
+    id: "schemametadatatype",
+    severity: "WARN",
+    test: testSchemaMetadataType,
+    url: DOCS_ARTICLE,
+  },
+  {
+    category: "cors",
+    description: "Bookend can be retrieved from the origin",
+    id: "bookendsameorigin",
+    network: true,
+    severity: "FAIL",
+    test: testBookendSameOrigin,
+    url: DOCS_BOOKEND,
+  },
+  {
+    category: "cors",
+    description: "Bookend can be retrieved from the AMP Cache",
+    id: "bookendcache",
+    network: true,
+    severity: "FAIL",
+    test: testBookendCache,
+    url: DOCS_BOOKEND,
+  },
+  {
+    category: "structure",
+    description: "Bookend has a valid bookendVersion, shareProviders and components",
+    id: "bookendschema",
+    network: true,
+    severity: "FAIL",
+    test: testBookendSchema,
+    url: DOCS_BOOKEND,
+  },
+  {
+    category: "media",
+    description: "Bookend links are reachable, and component images have the right shape",
+    id: "bookendresources",
+    network: true,
+    severity: "WARN",
+    test: testBookendResources,
+    url: DOCS_BOOKEND,
+  },
+  {
+    category: "media",
+    description: "<amp-video> uses <source> children instead of the src attribute",
+    fix: fixVideoSource,
+    id: "videosource",
+    severity: "FAIL",
+    test: testVideoSource,
+    url: DOCS_AMP_VIDEO,
+  },
+  {
+    category: "media",
+    description: "Videos are smaller than maxVideoSize (default 4MB)",
+    id: "videosize",
+    network: true,
+    severity: "FAIL",
+    test: testVideoSize,
+    url: `${DOCS_AMP_STORY}#amp-video`,
+  },
+  {
+    category: "media",
+    description: "<amp-video> has a poster",
+    id: "videoposter",
+    severity: "FAIL",
+    test: testVideoPoster,
+    url: DOCS_AMP_VIDEO,
+  },
+  {
+    category: "media",
+    description: "Videos use widely supported containers and codecs (MP4/H.264, WebM/VP9), and can be streamed",
+    id: "videoformat",
+    network: true,
+    severity: "WARN",
+    test: testVideoFormat,
+    url: DOCS_AMP_VIDEO,
+  },
+  {
+    category: "media",
+    description: "Videos are shorter than maxVideoDuration (default 15s)",
+    id: "videoduration",
+    network: true,
+    severity: "WARN",
+    test: testVideoDuration,
+    url: `${DOCS_AMP_STORY}#amp-video`,
+  },
+  {
+    category: "media",
+    description: "Video resolution is between minVideoResolution and maxVideoResolution (default 480p to 720p)",
+    id: "videoresolution",
+    network: true,
+    severity: "WARN",
+    test: testVideoResolution,
+    url: `${DOCS_AMP_STORY}#amp-video`,
+  },
+  {
+    category: "media",
+    description: "HLS and DASH sources are well-formed",
+    id: "videostreaming",
+    network: true,
+    severity: "FAIL",
+    test: testVideoStreaming,
+    url: DOCS_AMP_VIDEO,
+  },
+  {
+    category: "media",
+    description: "<amp-video> autoplays, and doesn't loop if the page auto-advances after it",
+    id: "videoautoplay",
+    severity: "WARN",
+    test: testVideoAutoplay,
+    url: `${DOCS_AMP_STORY}#amp-story-page`,
+  },
+  {
+    category: "structure",
+    description: "Every <amp-story-page> has a unique id",
+    id: "pageids",
+    severity: "FAIL",
+    test: testPageIds,
+    url: `${DOCS_AMP_STORY}#amp-story-page`,
+  },
+  {
+    category: "structure",
+    description: "Every <amp-story-page> has at least one <amp-story-grid-layer>",
+    id: "pagelayers",
+    severity: "FAIL",
+    test: testPageLayers,
+    url: `${DOCS_AMP_STORY}#amp-story-grid-layer`,
+  },
+  {
+    category: "structure",
+    description: "Story has between minPages and maxPages (default 5 to 30) pages",
+    id: "pagecount",
+    severity: "WARN",
+    test: testPageCount,
+    url: "https://developers.google.com/search/docs/guides/enable-stories-search",
+  },
+  {
+    category: "structure",
+    description: "Every <amp-story-page> contains text, images or videos",
+    id: "emptypages",
+    severity: "WARN",
+    test: testEmptyPages,
+    url: `${DOCS_AMP_STORY}#amp-story-page`,
+  },
+  {
+    category: "structure",
+    description: "Every <amp-story-grid-layer> has a valid template",
+    id: "layertemplate",
+    severity: "FAIL",
+    test: testLayerTemplates,
+    url: `${DOCS_AMP_STORY}#templates`,
+  },
+  {
+    category: "structure",
+    description: "Amount of text, images and videos in each page",
+    id: "pagecontent",
+    severity: "INFO",
+    test: testPageContent,
+    url: `${DOCS_AMP_STORY}#amp-story-page`,
+  },
+  {
+    category: "metadata",
+    description: "Story contains indexable text",
+    id: "mostlytext",
+    severity: "WARN",
+    test: testMostlyText,
+    url: `${DOCS_AMP_STORY}#metadata-guidelines`,
+  },
+  {
+    category: "performance",
+    description: "The AMP runtime is preloaded",
+    fix: fixRuntimePreloaded,
+    id: "runtimepreloaded",
+    severity: "WARN",
+    test: testRuntimePreloaded,
+    url: "https://www.ampproject.org/docs/fundamentals/optimize_amp",
+  },
+  {
+    category: "media",
+    description: "Publisher logo and posters exist and have the correct aspect ratio",
+    id: "thumbnails",
+    network: true,
+    severity: "FAIL",
+    test: testThumbnails,
+    url: `${DOCS_AMP_STORY}#metadata-guidelines`,
+  },
+  {
+    category: "validity",
+    description: "<meta charset> is the first child of <head>",
+    fix: fixMetaCharsetFirst,
+    id: "metacharsetfirst",
+    severity: "FAIL",
+    test: testMetaCharsetFirst,
+    url: "https://www.ampproject.org/docs/fundamentals/spec#required-markup",
+  },
+  {
+    category: "media",
+    description: "<amp-img> width and height match the intrinsic image size",
+    fix: fixAmpImg,
+    id: "ampimg",
+    network: true,
+    severity: "FAIL",
+    test: testAmpImg,
+    url: "https://www.ampproject.org/docs/reference/components/amp-img",
+  },
+  {
+    category: "performance",
+    description: "Images are smaller than maxImageSize (default 500KB)",
+    id: "imgweight",
+    network: true,
+    severity: "WARN",
+    test: testImgWeight,
+    url: DOCS_IMAGES,
+  },
+  {
+    category: "performance",
+    description: "Images aren't much larger than the size they're rendered at",
+    id: "imgoversized",
+    network: true,
+    severity: "WARN",
+    test: testImgOversized,
+    url: DOCS_IMAGES,
+  },
+  {
+    category: "performance",
+    description: "Images larger than largeImageSize (default 100KB) have a srcset",
+    id: "imgsrcset",
+    network: true,
+    severity: "WARN",
+    test: testImgSrcset,
+    url: "https://www.ampproject.org/docs/design/responsive/art_direction",
+  },
+  {
+    category: "performance",
+    description: "Large JPEG and PNG images could use WebP or AVIF",
+    id: "imgformat",
+    network: true,
+    severity: "INFO",
+    test: testImgFormat,
+    url: DOCS_IMAGES,
+  },
+  {
+    category: "performance",
+    description: "The document and its images are smaller than maxPageWeight (default 3MB)",
+    id: "pageweight",
+    network: true,
+    severity: "WARN",
+    test: testPageWeight,
+    url: "https://developers.google.com/web/fundamentals/performance/optimizing-content-efficiency/",
+  },
+  {
+    category: "accessibility",
+    description: "<amp-img> and <amp-anim> have alt text (or are marked as decorative)",
+    id: "imgalt",
+    severity: "FAIL",
+    test: testImgAlt,
+    url: "https://www.w3.org/WAI/tutorials/images/",
+  },
+  {
+    category: "accessibility",
+    description: "<amp-video> with audio has captions",
+    id: "videocaptions",
+    severity: "WARN",
+    test: testVideoCaptions,
+    url: DOCS_AMP_VIDEO,
+  },
+  {
+    category: "accessibility",
+    description: "Text with inline colors has sufficient contrast with its background",
+    id: "contrast",
+    severity: "WARN",
+    test: testContrast,
+    url: "https://www.w3.org/TR/WCAG20/#visual-audio-contrast-contrast",
+  },
+  {
+    category: "accessibility",
+    description: "<html> specifies the language of the document",
+    id: "htmllang",
+    severity: "FAIL",
+    test: testHtmlLang,
+    url: "https://www.w3.org/TR/WCAG20/#meaning-doc-lang-id",
+  },
+  {
+    category: "accessibility",
+    description: "Font sizes are at least minFontSize (default 12px)",
+    id: "fontsize",
+    severity: "WARN",
+    test: testFontSize,
+    url: "https://www.w3.org/TR/WCAG20/#visual-audio-contrast-scale",
+  },
+  {
+    category: "cors",
+    description: "CORS endpoints can be retrieved from the origin",
+    id: "corssameorigin",
+    network: true,
+    severity: "FAIL",
+    test: testCorsSameOrigin,
+    url: DOCS_CORS,
+  },
+  {
+    category: "cors",
+    description: "CORS endpoints can be retrieved from every AMP Cache",
+    id: "corscache",
+    network: true,
+    severity: "FAIL",
+    test: testCorsCache,
+    url: DOCS_CORS,
+  },
+];
+
+const getRule = (id: string): Rule|undefined => {
+  return RULES.filter(r => r.id === id)[0];
+};
+
+const applySetting = (setting: RuleSetting|undefined, m: Message): Message => {
+  if (!setting || setting === "off" || isPass(m) || m.status === S_SKIPPED || m.status === S_ERROR) {
+    return m;
+  }
+  return Object.assign({}, m, {status: setting});
+};
+
+/**
+ * A non-PASS message, tagged with the rule that produced it. `status` is the
+ * severity, after any change made by the config.
+ */
+export interface Finding extends Message {
+  readonly rule: string;
+  readonly category: Category;
+}
+
+export interface RuleSummary {
+  /** PASS, or the most severe status of the rule's findings. */
+  readonly status: string;
+  readonly findings: number;
+}
+
+export interface LintReport {
+  readonly url: string;
+  readonly summary: {
+    [id: string]: RuleSummary;
+  };
+  readonly findings: Finding[];
+}
+
+/**
+ * The statuses, least severe first. ERROR (a check that couldn't be run) is
+ * more severe than WARN, but less than FAIL.
+ */
+const STATUS_ORDER = [S_PASS, S_SKIPPED, S_INFO, S_WARN, S_ERROR, S_FAIL];
+
+const worstStatus = (messages: Message[]): string => {
+  return messages.reduce((a, m) => {
+    return STATUS_ORDER.indexOf(m.status) > STATUS_ORDER.indexOf(a) ? m.status : a;
+  }, S_PASS);
+};
+
+/**
+ * The exit status of the CLI: 2 if any URLs (of a batch) couldn't be linted,
+ * otherwise 1 if any of the `reports` has findings at least as severe as
+ * `failOn` (FAIL, ERROR or WARN; see `STATUS_ORDER`), otherwise 0.
+ *
+ * @param reports
+ * @param failOn
+ * @param errors the number of URLs that couldn't be linted
+ */
+const exitCode = (reports: LintReport[], failOn: string = S_FAIL, errors = 0) => {
+  const failing = STATUS_ORDER.slice(STATUS_ORDER.indexOf(failOn));
+  if (errors > 0) {
+    return 2;
+  }
+  return reports.some(r => r.findings.some(f => failing.indexOf(f.status) !== -1)) ? 1 : 0;
+};
+
+/**
+ * Returns a fetcher with the request timeout and retries from `options`.
+ *
+ * @param options
+ * @param cacheDir
+ */
+const optionsFetcher = (options: Partial<Options> = {}, cacheDir?: string) => {
+  const {requestRetries, requestTimeout} = Object.assign({}, DEFAULT_OPTIONS, options);
+  return createFetcher({cacheDir, retries: requestRetries, timeout: requestTimeout});
+};
+
+const testAll = async (context: Context, config: Config = {}): Promise<LintReport> => {
+  const settings = config.rules || {};
+  const options = Object.assign({}, config.options, context.options);
+  context = Object.assign({}, context, {
+    fetch: context.fetch || optionsFetcher(options),
+    options,
+  });
+  const rules = RULES.filter(r => settings[r.id] !== "off");
+  const res = await Promise.all(rules.map(async (rule) => {
+    const v = context.offline && rule.network ? await SKIPPED("offline") : await rule.test(context);
+    return ([] as Message[]).concat(v)
+      .filter(notPass)
+      .map(m => applySetting(settings[rule.id], m))
+      .map((m): Finding => Object.assign({category: rule.category, rule: rule.id}, m));
+  }));
+  return {
+    findings: ([] as Finding[]).concat(...res),
+    summary: rules.reduce((a: {[id: string]: RuleSummary}, rule, i) => {
+      a[rule.id] = {findings: res[i].length, status: worstStatus(res[i])};
+      return a;
+    }, {}),
+    url: context.url,
+  };
+};
+
+export interface FixResult {
+  /** The document, with the fixes applied. */
+  readonly source: string;
+  /** What was changed, by rule. */
+  readonly changes: Array<{rule: string, change: string}>;
+}
+
+/**
+ * Options for loading a document that will be fixed: htmlparser2 (rather
+ * than parse5) without decoding entities, so that `$.html()` reproduces the
+ * parts of the document that weren't changed (apart from the quoting of
+ * attributes, and bare attributes, which `serialize()` takes care of).
+ */
+const FIX_PARSER_OPTIONS = {_useHtmlParser2: true, decodeEntities: false, withStartIndices: true};
+
+/** Written in place of bare attribute values while serializing (see `serialize()`). */
+const BARE = "\u0000";
+
+const ATTRIBUTE = /\s*(?:([^\s"'>\/=]+)(\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]*))?|\/(?!>))/g;
+
+/**
+ * Whether each attribute of the start tag in `source` whose attributes begin
+ * at `index` has a value (`<html lang="en">`) or not (`<html amp>`).
+ *
+ * @param source
+ * @param index
+ */
+function startTagAttributes(source: string, index: number) {
+  const attributes: {[name: string]: boolean} = {};
+  ATTRIBUTE.lastIndex = index;
+  for (let m = ATTRIBUTE.exec(source); m && m.index === index; m = ATTRIBUTE.exec(source)) {
+    // (htmlparser2 lower-cases attribute names, and keeps the first of any duplicates.)
+    const name = m[1] && m[1].toLowerCase();
+    if (name && !(name in attributes)) {
+      attributes[name] = !!m[2];
+    }
+    index = ATTRIBUTE.lastIndex;
+  }
+  return attributes;
+}
+
+/**
+ * The attributes, of each element in `context.$`, that are written without
+ * a value in `context.source`. Since `$.html()` writes those as `amp=""`
+ * (unless they're standard HTML boolean attributes), this is used to put
+ * them back as they were; see `serialize()`.
+ *
+ * @param context loaded with `FIX_PARSER_OPTIONS`
+ */
+function bareAttributes(context: Context) {
+  const {$, source} = context;
+  const bare = new Map<CheerioElement, string[]>();
+  $("*").each((i, e) => {
+    const {startIndex} = e as CheerioElement & {startIndex?: number};
+    const empty = Object.keys(e.attribs).filter(name => e.attribs[name] === "");
+    if (!source || typeof startIndex !== "number" || empty.length === 0) {
+      return;
+    }
+    const attributes = startTagAttributes(source, startIndex + 1 + e.tagName.length);
+    const names = empty.filter(name => attributes[name] === false);
+    if (names.length > 0) {
+      bare.set(e, names);
+    }
+  });
+  return bare;
+}
+
+/**
+ * `$.html()`, with the attributes in `bare` (see `bareAttributes()`) that are
+ * still empty written without a value, as they were in the source.
+ *
+ * @param $
+ * @param bare
+ */
+function serialize($: CheerioStatic, bare: Map<CheerioElement, string[]>) {
+  const replaced: Array<[CheerioElement, string]> = [];
+  bare.forEach((names, e) => names.filter(name => e.attribs[name] === "").forEach(name => {
+    e.attribs[name] = BARE;
+    replaced.push([e, name]);
+  }));
+  const html = $.html().split(`="${BARE}"`).join("");
+  replaced.forEach(([e, name]) => e.attribs[name] = "");
+  return html;
+}
+
+/**
+ * Applies the fixes of the rules whose tests find problems, in turn (since
+ * each modifies `context.$`, which should have been loaded with
+ * `FIX_PARSER_OPTIONS`). Rules turned off by `config`, and rules that need
+ * the network if `context.offline`, are left alone.
+ *
+ * @param context
+ * @param config
+ */
+const fixAll = async (context: Context, config: Config = {}): Promise<FixResult> => {
+  const settings = config.rules || {};
+  const options = Object.assign({}, config.options, context.options);
+  context = Object.assign({}, context, {
+    fetch: context.fetch || optionsFetcher(options),
+    options,
+  });
+  const rules = RULES.filter(r => r.fix && settings[r.id] !== "off" && !(context.offline && r.network));
+  const changes: Array<{rule: string, change: string}> = [];
+  const bare = bareAttributes(context);
+  for (const rule of rules) {
+    const found = ([] as Message[]).concat(await rule.test(context)).filter(notPass);
+    if (found.length > 0) {
+      (await rule.fix!(context)).forEach(change => changes.push({change, rule: rule.id}));
+    }
+  }
+  return {changes, source: serialize(context.$, bare)};
+};
+
+export interface MigrationResult {
+  /** The document, migrated to amp-story 1.0. */
+  readonly source: string;
+  readonly changes: string[];
+  /** What couldn't be migrated automatically, and so needs to be done by hand. */
+  readonly problems: string[];
+  /** What was migrated, but should be checked by hand. */
+  readonly warnings: string[];
+}
+
+/**
+ * Migrates a story from amp-story 0.1 to 1.0 by modifying `context.$` (which
+ * should have been loaded with `FIX_PARSER_OPTIONS`): the extension script
+ * is replaced, the <amp-story bookend-config-src> becomes an
+ * <amp-story-bookend> child, and the <amp-story> attributes required by 1.0
+ * are taken from the JSON-LD, where possible. (The bookend itself is only
+ * checked, since it's usually a separate file.)
+ *
+ * @param context
+ */
+const migrate = async (context: Context): Promise<MigrationResult> => {
+  const {$} = context;
+  context = Object.assign({}, context, {fetch: context.fetch || optionsFetcher(context.options)});
+  const changes: string[] = [];
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  const story = $("amp-story").first();
+  const bare = bareAttributes(context);
+  if (story.length === 0) {
+    return {changes, problems: ["<amp-story> is missing"], source: serialize($, bare), warnings};
+  }
+
+  changes.push(...await fixAmpStoryV1(context));
+  if ($("script[src='https://cdn.ampproject.org/v0/amp-story-1.0.js']").length === 0) {
+    problems.push("<script src=https://cdn.ampproject.org/v0/amp-story-1.0.js> is missing");
+  }
+
+  const bookendSrc = story.attr("bookend-config-src");
+  if (bookendSrc && story.children("amp-story-bookend").length > 0) {
+    problems.push("<amp-story> has both bookend-config-src and an <amp-story-bookend>");
+  } else if (bookendSrc) {
+    const bookend = $("<amp-story-bookend>").attr("src", bookendSrc).attr("layout", "nodisplay");
+    story.removeAttr("bookend-config-src");
+    const last = story.children().last();
+    if (last.length > 0) {
+      insertAfter($, $.html(bookend), last);
+    } else {
+      story.append(bookend);
+    }
+    changes.push(`replaced <amp-story bookend-config-src="${bookendSrc}"> with an <amp-story-bookend> child`);
+  }
+  if (!context.offline) {
+    try {
+      const config = await getBookend(context);
+      if (config && config.bookend && config.bookend.bookendVersion !== BOOKEND_VERSION) {
+        problems.push(
+          `bookend [${config.url}] needs to be converted to the ${BOOKEND_VERSION} format (see ${DOCS_BOOKEND})`,
+        );
+      }
+    } catch (e) {
+      problems.push(`couldn't check the bookend: ${e.message || (e.status && `status ${e.status}`) || e}`);
+    }
+  }
+
+  const article = getSchemaMetadata($);
+  const publisher = article.publisher || {};
+  const fromJsonLd: {[attr: string]: any} = {
+    "poster-portrait-src": getImageUrls(article.image)[0],
+    "publisher": publisher.name,
+    "publisher-logo-src": getImageUrls(publisher.logo)[0],
+    "title": article.headline,
+  };
+  Object.keys(fromJsonLd).forEach(attr => {
+    const value = fromJsonLd[attr];
+    if (story.attr(attr)) {
+      return;
+    } else if (typeof value === "string" && value.trim() !== "") {
+      story.attr(attr, value.trim());
+      changes.push(`set <amp-story ${attr}="${value.trim()}"> from the JSON-LD`);
+    } else {
+      problems.push(`<amp-story ${attr}> is missing, and couldn't be taken from the JSON-LD`);
+    }
+  });
+  if (changes.some(c => c.startsWith("set <amp-story poster-portrait-src"))) {
+    warnings.push("poster-portrait-src was taken from the JSON-LD image, which might not be 3:4 (portrait)");
+  }
+
+  return {changes, problems, source: serialize($, bare), warnings};
+};
+
+/**
+ * Fetches `url` (with `headers`) and lints it.
+ *
+ * @param url
+ * @param headers
+ * @param config
+ * @param fetcher used for the document and every other request
+ */
+const lintUrl = async (
+  url: string,
+  headers: {[key: string]: string} = {},
+  config: Config = {},
+  fetcher: Fetch = optionsFetcher(config.options),
+) => {
+  const res = await fetcher(url, {headers});
+  if (!res.ok) {
+    throw new Error(`couldn't load [${url}]: ${res.statusText}`);
+  }
+  const source = await res.text();
+  return testAll({$: loadSource(source), fetch: fetcher, headers, source, url}, config);
+};
+
+export interface LintFileOptions {
+  /** Directory containing the story's assets (defaults to the file's directory). */
+  readonly root?: string;
+  /** URL that corresponds to `root`. */
+  readonly baseUrl?: string;
+  /** Skip rules that need the network. */
+  readonly offline?: boolean;
+  /** Used for any requests for non-local resources. */
+  readonly fetch?: Fetch;
+}
+
+/**
+ * Lints the story in `file` without fetching it. Relative URLs are resolved
+ * against `options.baseUrl` (which corresponds to `options.root`) if given,
+ * or against the `file:` URL of the root otherwise; either way, URLs under
+ * the base are read from the root where the file exists.
+ *
+ * @param file
+ * @param config
+ * @param options
+ */
+const lintFile = async (file: string, config: Config = {}, options: LintFileOptions = {}) => {
+  return testAll(fileContext(file, options), config);
+};
+
+/**
+ * Applies the fixes (see `fixAll()`) to the story in `file`, without
+ * writing it.
+ *
+ * @param file
+ * @param config
+ * @param options
+ */
+const fixFile = async (file: string, config: Config = {}, options: LintFileOptions = {}) => {
+  return fixAll(fileContext(file, options, FIX_PARSER_OPTIONS), config);
 };
 
+/**
+ * The context for linting (or fixing) the story in `file`; see `lintFile()`.
+ *
+ * @param file
+ * @param options
+ * @param parserOptions
+ */
+function fileContext(file: string, options: LintFileOptions, parserOptions?: CheerioOptionsInterface): Context {
+  const {baseUrl, offline} = options;
+  const dir = resolvePath(options.root || dirname(file));
+  const base = baseUrl ?
+    baseUrl.replace(/\/?$/, "/") :
+    `file://${dir.split(sep).map(encodeURIComponent).join("/").replace(/\/?$/, "/")}`;
+  const url = base + relative(dir, resolvePath(file)).split(sep).map(encodeURIComponent).join("/");
+  const source = readFileSync(file).toString();
+  return {
+    $: parserOptions ? cheerio.load(source, parserOptions) : loadSource(source),
+    fetch: options.fetch,
+    headers: {},
+    local: {dir, url: base},
+    offline,
+    source,
+    url,
+  };
+}
+
+/**
+ * Returns the story documents (HTML files containing <amp-story>) in `dir`
+ * and its subdirectories.
+ *
+ * @param dir
+ */
+function findStories(dir: string): string[] {
+  return ([] as string[]).concat(...readdirSync(dir).sort().map(name => {
+    const path = join(dir, name);
+    if (statSync(path).isDirectory()) {
+      return name.startsWith(".") || name === "node_modules" ? [] : findStories(path);
+    }
+    return name.match(/\.html?$/) && readFileSync(path).toString().indexOf("<amp-story") !== -1 ? [path] : [];
+  }));
+}
+
 export {
+  RULES,
+  STATUS_ORDER,
+  getRule,
   testAll,
+  exitCode,
+  lintUrl,
+  lintFile,
+  fixAll,
+  fixFile,
+  FIX_PARSER_OPTIONS,
+  migrate,
+  findStories,
+  loadSource,
+  createFetcher,
+  Fetch,
   testAmpStory,
   testAmpStoryV1,
   testAmpStoryV1Metadata,
   testBookendCache,
+  testBookendSchema,
+  testBookendResources,
   testBookendSameOrigin,
   testCanonical,
   testSchemaMetadataType,
   testSchemaMetadataRecent,
+  testJsonLd,
+  testSchemaArticle,
+  testSchemaImages,
+  testMetadataConsistency,
+  testOpenGraph,
+  testTwitterCard,
+  testSocialImages,
+  testFavicon,
+  testManifest,
+  testStoryDiscovery,
   testMostlyText,
+  testPageIds,
+  testPageLayers,
+  testPageCount,
+  testEmptyPages,
+  testLayerTemplates,
+  testPageContent,
+  testImgAlt,
+  testVideoCaptions,
+  testContrast,
+  testHtmlLang,
+  testFontSize,
   testValidity,
   testVideoSize,
   testVideoSource,
+  testVideoPoster,
+  testVideoFormat,
+  testVideoDuration,
+  testVideoResolution,
+  testVideoStreaming,
+  testVideoAutoplay,
   testMetaCharsetFirst,
   testRuntimePreloaded,
   testThumbnails,
   testAmpImg,
+  testImgWeight,
+  testImgOversized,
+  testImgSrcset,
+  testImgFormat,
+  testPageWeight,
   testCorsSameOrigin,
   testCorsCache,
   fetchToCurl,
+  CONFIG_FILENAME,
+  Config,
+  DEFAULT_OPTIONS,
+  Options,
+  findConfig,
+  loadConfig,
   // "private" functions get prefixed
   getBody as _getBody,
   getSchemaMetadata as _getSchemaMetadata,
   getInlineMetadata as _getInlineMetadata,
   getImageSize as _getImageSize,
   getCorsEndpoints as _getCorsEndpoints,
+  getPageContent as _getPageContent,
+  applySetting as _applySetting,
 };
 
 if (require.main === module) { // invoked directly?
 
   if (process.argv.length <= 2) {
-    console.error(`usage: ${basename(process.argv[0])} ${basename(process.argv[1])} URL|copy_as_cURL`);
+    console.error([
+      `usage: ${basename(process.argv[0])} ${basename(process.argv[1])}`,
+      `[--config FILE] [--format ${Object.keys(REPORTERS).join("|")}] [--fail-on FAIL|ERROR|WARN]`,
+      `URL|copy_as_cURL|--batch FILE|URL|- [--concurrency N]|FILE|DIR [--base-url URL] [--offline]`,
+      `[--cache-dir DIR] [--fix|--migrate [--diff]]`,
+    ].join(" "));
+    console.error([
+      `exits with 1 if there are findings at least as severe as --fail-on (default FAIL; ERROR, a check that`,
+      `couldn't be run, is more severe than WARN), or 2 if a URL or FILE couldn't be linted`,
+    ].join(" "));
     process.exit(1);
   }
 
-  const url = process.argv[2] === "-" ? "-" : process.argv.filter(s => s.match(/^http/))[0];
+  function option(name: string): string|undefined {
+    const n = process.argv.indexOf(name);
+    return n === -1 ? undefined : process.argv[n + 1];
+  }
+
+  // List of URLs (or sitemap) to lint; "-" is stdin.
+  const batch = option("--batch");
+
+  const url = (!batch && process.argv.slice(2).indexOf("-") !== -1) ?
+    "-" : process.argv.filter(s => s.match(/^http/) && s !== batch)[0];
+
+  // Local story file, or directory of stories, to lint instead of a URL.
+  const withValues = [
+    "--config", "--format", "--fail-on", "--batch", "--concurrency", "--base-url", "--cache-dir", "-H",
+  ];
+  const path = process.argv.slice(2)
+    .filter((s, i, a) => !s.startsWith("-") && (i === 0 || withValues.indexOf(a[i - 1]) === -1))
+    .filter(s => existsSync(s))[0];
+  const baseUrl = option("--base-url");
+
+  // Skip rules that need the network (only for local files and stdin).
+  const offline = process.argv.indexOf("--offline") !== -1;
+  const isDir = !!path && statSync(path).isDirectory();
 
   function seq(first: number, last: number): number[] {
     if (first < last) {
@@ -693,21 +2871,141 @@ if (require.main === module) { // invoked directly?
 
   // console.log({url, headers});
 
-  const body = (() => {
-    if (url === "-") {
-      return Promise.resolve(readFileSync("/dev/stdin").toString());
-    } else {
-      return fetch(url, { headers }).then(
-        r => r.ok ? r.text() : Promise.reject(`couldn't load [${url}]: ${r.statusText}`)
-      );
+  const config = (() => {
+    const file = option("--config") || findConfig(process.cwd());
+    try {
+      return file ? loadConfig(file, RULES.map(r => r.id)) : {};
+    } catch (e) {
+      console.error(`error: ${e.message}`);
+      return process.exit(1);
+    }
+  })();
+
+  const format = option("--format") || "json";
+  const formats = Object.keys(batch || isDir ? BATCH_REPORTERS : REPORTERS);
+  if (formats.indexOf(format) === -1) {
+    console.error(`error: unknown format [${format}], expected one of [${formats.join(", ")}]`);
+    process.exit(1);
+  }
+
+  // Exit with a non-zero status if there are findings at least this severe
+  // (so ERRORs, i.e. checks that couldn't be run, only fail with --fail-on
+  // ERROR or WARN).
+  const failOn = (() => {
+    const status = option("--fail-on") || S_FAIL;
+    if ([S_FAIL, S_ERROR, S_WARN].indexOf(status) === -1) {
+      console.error(`error: unknown --fail-on status [${status}], expected one of [${S_FAIL}, ${S_ERROR}, ${S_WARN}]`);
+      return process.exit(1);
+    }
+    return status;
+  })();
+
+  // How many stories are linted at once (for --batch or a DIR).
+  const concurrency = (() => {
+    const n = option("--concurrency") || "4";
+    if (!/^[1-9][0-9]*$/.test(n)) {
+      console.error(`error: --concurrency [${n}] should be a positive integer`);
+      return process.exit(1);
     }
+    return parseInt(n, 10);
   })();
 
-  body
-    .then(b => cheerio.load(b))
-    .then($ => testAll({$, headers, url}))
-    .then(r => console.log(JSON.stringify(r, null, 2)))
-    .then(() => process.exit(0))
-    .catch((e) => console.error(`error: ${e}`));
+  // Shared by every story linted, so that common resources are only fetched once.
+  const fetcher = optionsFetcher(config.options, option("--cache-dir"));
+
+  // Apply the mechanical fixes (or migrate the story to amp-story 1.0), and
+  // write the result (or a diff).
+  const fix = process.argv.indexOf("--fix") !== -1;
+  const migrateStory = process.argv.indexOf("--migrate") !== -1;
+  const showDiff = process.argv.indexOf("--diff") !== -1;
+
+  if (fix || migrateStory) {
+
+    if (batch || isDir || (!path && url !== "-")) {
+      console.error(`error: ${fix ? "--fix" : "--migrate"} needs a FILE or - (stdin)`);
+      process.exit(1);
+    }
+
+    const source = readFileSync(path || "/dev/stdin").toString();
+    const context = path ?
+      fileContext(path, {baseUrl, fetch: fetcher, offline}, FIX_PARSER_OPTIONS) :
+      {$: cheerio.load(source, FIX_PARSER_OPTIONS), fetch: fetcher, headers, offline, source, url};
+    const result = fix ?
+      fixAll(context, config).then(r => ({
+        messages: r.changes.map(c => `${c.rule}: ${c.change}`),
+        problems: [] as string[],
+        source: r.source,
+        warnings: [] as string[],
+      })) :
+      migrate(context).then(r => ({messages: r.changes, problems: r.problems, source: r.source, warnings: r.warnings}));
+
+    result
+      .then(r => {
+        r.messages.forEach(m => console.error(m));
+        r.warnings.forEach(w => console.error(`warning: ${w}`));
+        r.problems.forEach(p => console.error(`not migrated: ${p}`));
+        if (showDiff) {
+          process.stdout.write(r.source === source ? "" : createPatch(path || "-", source, r.source, "", ""));
+        } else if (path) {
+          writeFileSync(path, r.source);
+        } else {
+          process.stdout.write(r.source);
+        }
+        process.exit(r.problems.length > 0 ? 1 : 0);
+      })
+      .catch((e) => {
+        console.error(`error: ${e.message || e}`);
+        process.exit(2);
+      });
+
+  } else if (batch) {
+
+    readUrls(batch, headers, fetcher)
+      .then(urls => lintBatch(urls, u => lintUrl(u, headers, config, fetcher), concurrency))
+      .then(r => {
+        console.log(BATCH_REPORTERS[format](r, RULES));
+        process.exit(exitCode(r.reports, failOn, r.errors.length));
+      })
+      .catch((e) => {
+        console.error(`error: ${e.message || e}`);
+        process.exit(2);
+      });
+
+  } else if (path && isDir) {
+
+    lintBatch(findStories(path), f => lintFile(f, config, {baseUrl, fetch: fetcher, offline, root: path}), concurrency)
+      .then(r => {
+        console.log(BATCH_REPORTERS[format](r, RULES));
+        process.exit(exitCode(r.reports, failOn, r.errors.length));
+      })
+      .catch((e) => {
+        console.error(`error: ${e.message || e}`);
+        process.exit(2);
+      });
+
+  } else {
+
+    const report = (() => {
+      if (path) {
+        return lintFile(path, config, {baseUrl, fetch: fetcher, offline});
+      } else if (url === "-") {
+        const source = readFileSync("/dev/stdin").toString();
+        return testAll({$: loadSource(source), fetch: fetcher, headers, offline, source, url}, config);
+      } else {
+        return lintUrl(url, headers, config, fetcher);
+      }
+    })();
+
+    report
+      .then(r => {
+        console.log(REPORTERS[format](r, RULES));
+        process.exit(exitCode([r], failOn));
+      })
+      .catch((e) => {
+        console.error(`error: ${e.message || e}`);
+        process.exit(2);
+      });
+
+  }
 
 }
@@ -0,0 +1,284 @@
+import {BatchReport} from "./batch";
+import {ActualExpected, Finding, LintReport, Rule, SourceLocation} from "./index";
+
+/**
+ * Formats a report for output. `rules` are the rules that were (or could have
+ * been) run, for reporters that describe them.
+ */
+export type Reporter = (report: LintReport, rules: Rule[]) => string;
+
+export type BatchReporter = (batch: BatchReport, rules: Rule[]) => string;
+
+// SARIF result kinds other than "fail" (which has a level).
+const SARIF_KIND: {[status: string]: string} = {
+  ERROR: "open",
+  SKIPPED: "notApplicable",
+};
+
+const SARIF_LEVEL: {[status: string]: string} = {
+  FAIL: "error",
+  INFO: "note",
+  WARN: "warning",
+};
+
+function messageText(message: string|ActualExpected|undefined, code?: string): string {
+  if (code) {
+    return `${messageText(message)} (${code})`;
+  }
+  if (typeof message === "undefined") {
+    return "";
+  } else if (typeof message === "string") {
+    return message;
+  } else {
+    return `expected [${message.expected}], actual [${message.actual}]`;
+  }
+}
+
+export const json: Reporter = (report) => {
+  return JSON.stringify(report, null, 2);
+};
+
+function sarifLog(reports: LintReport[], rules: Rule[]) {
+  const pkg = require("./package.json");
+  const result = (report: LintReport) => (f: Finding) => {
+    const location: SourceLocation = f.location || {};
+    return Object.assign(f.status in SARIF_KIND ? {kind: SARIF_KIND[f.status]} : {}, {
+      level: SARIF_LEVEL[f.status] || "none",
+      locations: [Object.assign(
+        {
+          physicalLocation: {
+            artifactLocation: {uri: report.url},
+            region: Object.assign(
+              {startLine: location.line || 1},
+              location.column ? {startColumn: location.column} : {},
+              location.html ? {snippet: {text: location.html}} : {},
+            ),
+          },
+        },
+        location.selector ? {logicalLocations: [{fullyQualifiedName: location.selector, kind: "element"}]} : {},
+      )],
+      message: {text: messageText(f.message, f.code)},
+      ruleId: f.rule,
+      ruleIndex: rules.map(r => r.id).indexOf(f.rule),
+    });
+  };
+  return JSON.stringify({
+    $schema: "https://raw.githubusercontent.com/oasis-tcs/sarif-spec/master/Schemata/sarif-schema-2.1.0.json",
+    runs: [{
+      artifacts: reports.map(r => ({location: {uri: r.url}})),
+      results: ([] as object[]).concat(...reports.map(r => r.findings.map(result(r)))),
+      tool: {
+        driver: {
+          informationUri: pkg.repository,
+          name: pkg.name,
+          rules: rules.map(r => ({
+            defaultConfiguration: {level: SARIF_LEVEL[r.severity]},
+            helpUri: r.url,
+            id: r.id,
+            properties: {category: r.category},
+            shortDescription: {text: r.description},
+          })),
+          version: pkg.version,
+        },
+      },
+    }],
+    version: "2.1.0",
+  }, null, 2);
+}
+
+/**
+ * SARIF 2.1.0, as consumed by code scanning tools.
+ *
+ * http://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+export const sarif: Reporter = (report, rules) => {
+  return sarifLog([report], rules);
+};
+
+function escapeXml(s: string) {
+  return s.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function junitSuite(report: LintReport, rules: Rule[]) {
+  const ids = Object.keys(report.summary);
+  const testcase = (id: string) => {
+    const findings = report.findings.filter(f => f.rule === id);
+    const failed = findings.filter(f => f.status === "FAIL").map(f => {
+      const s = escapeXml(messageText(f.message));
+      return `      <failure type="${f.status}" message="${s}">${s}</failure>`;
+    });
+    const skipped = findings.filter(f => f.status === "SKIPPED").map(f => {
+      return `      <skipped message="${escapeXml(messageText(f.message))}"/>`;
+    });
+    const errored = findings.filter(f => f.status === "ERROR").map(f => {
+      const s = escapeXml(messageText(f.message));
+      return `      <error type="${escapeXml(f.code || "")}" message="${s}">${s}</error>`;
+    });
+    const other = findings.filter(f => ["FAIL", "SKIPPED", "ERROR"].indexOf(f.status) === -1)
+      .map(f => `${f.status}: ${messageText(f.message)}`);
+    const rule = rules.filter(r => r.id === id)[0];
+    return [
+      `    <testcase name="${escapeXml(id)}" classname="${escapeXml(rule ? rule.category : id)}">`,
+      ...failed,
+      ...errored,
+      ...skipped,
+      ...(other.length > 0 ? [`      <system-out>${escapeXml(other.join("\n"))}</system-out>`] : []),
+      `    </testcase>`,
+    ].join("\n");
+  };
+  const failures = ids.filter(id => report.summary[id].status === "FAIL").length;
+  const skips = ids.filter(id => report.summary[id].status === "SKIPPED").length;
+  const errors = ids.filter(id => report.summary[id].status === "ERROR").length;
+  return [
+    [
+      `  <testsuite name="${escapeXml(report.url)}"`,
+      `tests="${ids.length}" failures="${failures}" errors="${errors}" skipped="${skips}">`,
+    ].join(" "),
+    ...ids.map(testcase),
+    `  </testsuite>`,
+  ].join("\n");
+}
+
+function junitSuites(suites: string[]) {
+  return [`<?xml version="1.0" encoding="UTF-8"?>`, `<testsuites>`, ...suites, `</testsuites>`].join("\n");
+}
+
+/**
+ * JUnit XML: one <testcase> per rule, with a <failure> for each FAIL, an
+ * <error> for each ERROR (something that couldn't be checked), and <skipped>
+ * if the rule wasn't run. Other findings are included as <system-out>.
+ */
+export const junit: Reporter = (report, rules) => {
+  return junitSuites([junitSuite(report, rules)]);
+};
+
+/** The plan and the tests (one per rule) of the TAP for `report`; see `tap()`. */
+function tapTests(report: LintReport) {
+  const ids = Object.keys(report.summary);
+  const lines = ids.map((id, i) => {
+    const findings = report.findings.filter(f => f.rule === id);
+    const ok = report.summary[id].status === "FAIL" ? "not ok" : "ok";
+    const diagnostics = findings.length === 0 ? [] : [
+      "  ---",
+      "  findings:",
+      ...findings.map(f => [
+        `    - status: ${f.status}`,
+        `      message: ${JSON.stringify(messageText(f.message))}`,
+        ...(f.code ? [`      code: ${f.code}`] : []),
+        ...(f.location && f.location.line ? [`      line: ${f.location.line}`] : []),
+        ...(f.location && f.location.selector ? [`      selector: ${JSON.stringify(f.location.selector)}`] : []),
+      ].join("\n")),
+      "  ...",
+    ];
+    const status = report.summary[id].status;
+    const directive = status === "SKIPPED" ? `SKIP ${messageText(findings[0].message)}` : status;
+    return [`${ok} ${i + 1} - ${id} # ${directive}`, ...diagnostics].join("\n");
+  });
+  return [`1..${ids.length}`, ...lines];
+}
+
+/**
+ * TAP version 13: one test per rule, which is "not ok" if the rule has a FAIL
+ * finding, and has a SKIP directive if it wasn't run. Findings are included
+ * as YAML diagnostics.
+ */
+export const tap: Reporter = (report) => {
+  return ["TAP version 13", `# ${report.url}`, ...tapTests(report)].join("\n");
+};
+
+const COLORS: {[status: string]: string} = {
+  ERROR: "\x1b[35m", // magenta
+  FAIL: "\x1b[31m", // red
+  INFO: "\x1b[36m", // cyan
+  PASS: "\x1b[32m", // green
+  SKIPPED: "\x1b[90m", // grey
+  WARN: "\x1b[33m", // yellow
+};
+
+/**
+ * Human-readable text, colored if stdout is a terminal.
+ */
+export const text: Reporter = (report) => {
+  const color = (status: string, s: string) => {
+    return process.stdout.isTTY && status in COLORS ? `${COLORS[status]}${s}\x1b[0m` : s;
+  };
+  const findings = report.findings.map(f => {
+    const location = f.location && f.location.line ?
+      `${f.location.line}:${f.location.column || 1}` : "";
+    const selector = f.location && f.location.selector ? ` ${f.location.selector}` : "";
+    return [
+      `  ${color(f.status, (f.status + "       ").substring(0, 7))}  ${f.rule}  ${messageText(f.message, f.code)}`,
+      ...(location || selector ? [`           at ${location}${selector}`] : []),
+    ].join("\n");
+  });
+  const counts = ["FAIL", "ERROR", "WARN", "INFO", "SKIPPED"].map(status => {
+    return color(status, `${report.findings.filter(f => f.status === status).length} ${status}`);
+  });
+  return [
+    report.url,
+    ...findings,
+    `  ${counts.join(", ")} (${Object.keys(report.summary).length} rules)`,
+  ].join("\n");
+};
+
+/**
+ * Counts of each summary status, per rule, across a batch.
+ */
+function totalsText(batch: BatchReport) {
+  const statuses = ["PASS", "FAIL", "ERROR", "WARN", "INFO", "SKIPPED"];
+  const rules = Object.keys(batch.totals);
+  const width = Math.max(0, ...rules.map(r => r.length));
+  return [
+    `${" ".repeat(width)}  ${statuses.map(st => (st + "        ").substring(0, 9)).join("")}`,
+    ...rules.map(rule => {
+      const counts = statuses.map(st => (`${batch.totals[rule][st] || 0}         `).substring(0, 9));
+      return `${(rule + " ".repeat(width)).substring(0, width)}  ${counts.join("")}`;
+    }),
+  ].map(s => s.replace(/\s+$/, "")).join("\n");
+}
+
+export const BATCH_REPORTERS: {[format: string]: BatchReporter} = {
+  json: (batch) => JSON.stringify(batch, null, 2),
+  junit: (batch, rules) => junitSuites(
+    batch.reports.map(r => junitSuite(r, rules)).concat(batch.errors.map(e => [
+      `  <testsuite name="${escapeXml(e.url)}" tests="1" failures="0" errors="1">`,
+      `    <testcase name="load" classname="load">`,
+      `      <error message="${escapeXml(e.message)}">${escapeXml(e.message)}</error>`,
+      `    </testcase>`,
+      `  </testsuite>`,
+    ].join("\n")))
+  ),
+  sarif: (batch, rules) => sarifLog(batch.reports, rules),
+  // One test per URL, with the tests of its rules as a subtest; URLs that
+  // couldn't be loaded are "not ok".
+  tap: (batch) => {
+    const reports = batch.reports.map((r, i) => {
+      const ok = Object.keys(r.summary).some(id => r.summary[id].status === "FAIL") ? "not ok" : "ok";
+      return [
+        `    # Subtest: ${r.url}`,
+        ...tapTests(r).map(line => line.replace(/^/gm, "    ")),
+        `${ok} ${i + 1} - ${r.url}`,
+      ].join("\n");
+    });
+    const errors = batch.errors.map((e, i) => [
+      `not ok ${batch.reports.length + i + 1} - ${e.url}`,
+      "  ---",
+      `  message: ${JSON.stringify(e.message)}`,
+      "  ...",
+    ].join("\n"));
+    return ["TAP version 13", `1..${reports.length + errors.length}`, ...reports, ...errors].join("\n");
+  },
+  text: (batch, rules) => [
+    ...batch.reports.map(r => text(r, rules) + "\n"),
+    ...batch.errors.map(e => `${e.url}\n  error: ${e.message}\n`),
+    totalsText(batch),
+  ].join("\n"),
+};
+
+export const REPORTERS: {[format: string]: Reporter} = {
+  json,
+  junit,
+  sarif,
+  tap,
+  text,
+};
@@ -0,0 +1,188 @@
+import {URL} from "url";
+
+/**
+ * Constraints on the pixel size of an image (in the JSON-LD, or the actual
+ * image).
+ */
+export interface ImageConstraints {
+  readonly minWidth?: number;
+  readonly maxWidth?: number;
+  readonly maxHeight?: number;
+}
+
+export interface PropertyDefinition {
+  /** Missing required properties are errors; missing recommended ones warnings. */
+  readonly required?: boolean;
+  readonly recommended?: boolean;
+  /**
+   * Allowed types of the value: Text, URL, Date, Number, or (for objects)
+   * a schema.org type such as Person.
+   */
+  readonly types?: string[];
+  readonly maxLength?: number;
+  /** For images (URLs or ImageObjects). */
+  readonly image?: ImageConstraints;
+  /** For objects. */
+  readonly properties?: {[name: string]: PropertyDefinition};
+}
+
+export interface SchemaDefinition {
+  /** The @types the definition applies to. */
+  readonly types: string[];
+  readonly properties: {[name: string]: PropertyDefinition};
+}
+
+export interface SchemaProblem {
+  /** The property, e.g. "publisher.logo". */
+  readonly path: string;
+  readonly message: string;
+  /** Whether the problem is with a required (rather than recommended) property. */
+  readonly required: boolean;
+}
+
+// tslint:disable-next-line:no-var-requires
+export const ARTICLE_SCHEMA: SchemaDefinition = require("./article-schema.json");
+
+/** The `@type` of `value` (which can be a single type, or an array of them). */
+export function typesOf(value: any): string[] {
+  const type = value && value["@type"];
+  return ([] as string[]).concat(type || []);
+}
+
+/**
+ * Whether `value` has the type of one of `types`; see
+ * `PropertyDefinition.types`.
+ */
+function hasType(value: any, types: string[]) {
+  return types.some(type => {
+    switch (type) {
+      case "Text":
+        return typeof value === "string";
+      case "URL":
+        try {
+          return typeof value === "string" && !!new URL(value).protocol.match(/^https?:$/);
+        } catch (e) {
+          return false;
+        }
+      case "Date":
+        return typeof value === "string" && !isNaN(Date.parse(value));
+      case "Number":
+        return typeof value === "number" || (typeof value === "string" && !isNaN(parseFloat(value)));
+      default:
+        return typesOf(value).indexOf(type) !== -1;
+    }
+  });
+}
+
+/** A pixel dimension: a number, a string such as "696" or "696px", or a QuantitativeValue. */
+function dimension(value: any): number|undefined {
+  const v = value && typeof value === "object" ? value.value : value;
+  const n = parseInt(v, 10);
+  return isNaN(n) ? undefined : n;
+}
+
+/**
+ * Returns the problems with the (declared) size of an image, if any.
+ *
+ * @param size
+ * @param constraints
+ */
+export function imageSizeProblems(
+  size: {width?: number, height?: number},
+  constraints: ImageConstraints,
+): string[] {
+  const {width, height} = size;
+  const problems: string[] = [];
+  if (constraints.minWidth && width !== undefined && width < constraints.minWidth) {
+    problems.push(`width is ${width}px, expected at least ${constraints.minWidth}px`);
+  }
+  if (constraints.maxWidth && width !== undefined && width > constraints.maxWidth) {
+    problems.push(`width is ${width}px, expected at most ${constraints.maxWidth}px`);
+  }
+  if (constraints.maxHeight && height !== undefined && height > constraints.maxHeight) {
+    problems.push(`height is ${height}px, expected at most ${constraints.maxHeight}px`);
+  }
+  return problems;
+}
+
+function validateValue(path: string, value: any, definition: PropertyDefinition, required: boolean): SchemaProblem[] {
+  const problem = (message: string) => ({message, path, required});
+  const types = definition.types || [];
+  if (types.length > 0 && !hasType(value, types)) {
+    const actual = typeof value === "object" ? typesOf(value).join(", ") || "object without @type" : value;
+    return [problem(`is [${actual}], expected [${types.join(" or ")}]`)];
+  }
+  const problems: SchemaProblem[] = [];
+  if (definition.maxLength && typeof value === "string" && value.length > definition.maxLength) {
+    problems.push(problem(`is ${value.length} characters, expected at most ${definition.maxLength}`));
+  }
+  if (definition.image && typeof value === "object") {
+    const size = {height: dimension(value.height), width: dimension(value.width)};
+    problems.push(...imageSizeProblems(size, definition.image).map(problem));
+  }
+  if (definition.properties && typeof value === "object") {
+    problems.push(...validateProperties(path, value, definition.properties, required));
+  }
+  return problems;
+}
+
+function validateProperties(
+  prefix: string,
+  item: any,
+  properties: {[name: string]: PropertyDefinition},
+  required: boolean,
+): SchemaProblem[] {
+  return ([] as SchemaProblem[]).concat(...Object.keys(properties).map(name => {
+    const definition = properties[name];
+    const path = prefix ? `${prefix}.${name}` : name;
+    const value = item[name];
+    if (value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0)) {
+      return definition.required || definition.recommended ?
+        [{message: "is missing", path, required: required && !!definition.required}] :
+        [];
+    }
+    const isRequired = required && !!definition.required;
+    return ([] as SchemaProblem[]).concat(
+      ...([] as any[]).concat(value).map(v => validateValue(path, v, definition, isRequired)),
+    );
+  }));
+}
+
+/**
+ * Validates a JSON-LD item against a definition, returning the problems
+ * with its properties (if any).
+ *
+ * @param item
+ * @param definition
+ */
+export function validateItem(item: any, definition: SchemaDefinition): SchemaProblem[] {
+  return validateProperties("", item, definition.properties, true);
+}
+
+/**
+ * The URLs of the images in `item` that have size constraints, with their
+ * path (e.g. "publisher.logo") and the constraints.
+ *
+ * @param item
+ * @param definition
+ */
+export function getImages(item: any, definition: SchemaDefinition) {
+  const images: Array<{path: string, url: string, constraints: ImageConstraints}> = [];
+  const walk = (prefix: string, o: any, properties: {[name: string]: PropertyDefinition}) => {
+    Object.keys(properties).forEach(name => {
+      const path = prefix ? `${prefix}.${name}` : name;
+      const p = properties[name];
+      ([] as any[]).concat(o[name] || []).forEach(v => {
+        const url = typeof v === "string" ? v : v && (v.url || v.contentUrl);
+        if (p.image && typeof url === "string") {
+          images.push({constraints: p.image, path, url});
+        }
+        if (p.properties && v && typeof v === "object") {
+          walk(path, v, p.properties);
+        }
+      });
+    });
+  };
+  walk("", item || {}, definition.properties);
+  return images;
+}
@@ -0,0 +1,118 @@
+import {mkdtempSync, writeFileSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+
+import {LintReport} from "..";
+import {lintBatch, readUrls} from "../batch";
+import {assert, fakeFetch, plan} from "./helpers";
+
+const sitemap = (locs: string[]) => [
+  `<?xml version="1.0" encoding="UTF-8"?>`,
+  `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+  ...locs.map(loc => `  <url><loc>${loc}</loc><lastmod>2018-10-01</lastmod></url>`),
+  `</urlset>`,
+].join("\n");
+
+const FETCH = fakeFetch({
+  "https://example.com/sitemap-1.xml": sitemap(["https://example.com/a.html", "https://example.com/b.html"]),
+  "https://example.com/sitemap-2.xml": sitemap([" https://example.com/c.html "]),
+  "https://example.com/sitemap.xml": [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    `  <sitemap><loc>https://example.com/sitemap-1.xml</loc></sitemap>`,
+    `  <sitemap><loc>https://example.com/sitemap-2.xml</loc></sitemap>`,
+    `</sitemapindex>`,
+  ].join("\n"),
+  "https://example.com/urls.txt": "# stories\nhttps://example.com/a.html\n\n  https://example.com/b.html  \n",
+});
+
+async function testReadUrlsList() {
+  const file = join(mkdtempSync(join(tmpdir(), "amp-story-linter-")), "urls.txt");
+  writeFileSync(file, "https://example.com/a.html\n#https://example.com/b.html\n");
+  const fromUrl = await readUrls("https://example.com/urls.txt", {}, FETCH);
+  const fromFile = await readUrls(file, {}, FETCH);
+  assert(
+    "readUrls - a list of URLs, skipping blank lines and comments",
+    JSON.stringify(fromUrl) === JSON.stringify(["https://example.com/a.html", "https://example.com/b.html"]) &&
+      JSON.stringify(fromFile) === JSON.stringify(["https://example.com/a.html"]),
+    JSON.stringify([fromUrl, fromFile]),
+  );
+}
+
+async function testReadUrlsSitemap() {
+  const urls = await readUrls("https://example.com/sitemap-1.xml", {}, FETCH);
+  const nested = await readUrls("https://example.com/sitemap.xml", {}, FETCH);
+  assert(
+    "readUrls - sitemaps, and the sitemaps in a sitemap index",
+    JSON.stringify(urls) === JSON.stringify(["https://example.com/a.html", "https://example.com/b.html"]) &&
+      JSON.stringify(nested) ===
+        JSON.stringify(["https://example.com/a.html", "https://example.com/b.html", "https://example.com/c.html"]),
+    JSON.stringify([urls, nested]),
+  );
+}
+
+async function testReadUrlsMissing() {
+  const message = await readUrls("https://example.com/missing.xml", {}, FETCH).then(() => "", e => e.message);
+  assert(
+    "readUrls - lists that can't be loaded",
+    message.startsWith("couldn't load [https://example.com/missing.xml]"),
+    message,
+  );
+}
+
+/** A report with the given summary status for each rule. */
+function report(url: string, statuses: {[rule: string]: string}): LintReport {
+  const rules = Object.keys(statuses);
+  return {
+    findings: rules.filter(rule => statuses[rule] !== "PASS")
+      .map(rule => ({category: "media" as "media", rule, status: statuses[rule]})),
+    summary: rules.reduce((a: LintReport["summary"], rule) => {
+      a[rule] = {findings: statuses[rule] === "PASS" ? 0 : 1, status: statuses[rule]};
+      return a;
+    }, {}),
+    url,
+  };
+}
+
+async function testLintBatch() {
+  const reports: {[url: string]: LintReport} = {
+    a: report("a", {ampimg: "FAIL", videosize: "PASS"}),
+    c: report("c", {ampimg: "PASS", videosize: "PASS"}),
+    d: report("d", {ampimg: "FAIL", videosize: "SKIPPED"}),
+  };
+  const lint = (url: string) => url in reports ? Promise.resolve(reports[url]) : Promise.reject(new Error("404"));
+  const batch = await lintBatch(["a", "b", "c", "d"], lint, 2);
+  assert(
+    "lintBatch - reports (in input order), errors and totals",
+    JSON.stringify(batch.reports.map(r => r.url)) === JSON.stringify(["a", "c", "d"]) &&
+      JSON.stringify(batch.errors) === JSON.stringify([{message: "404", url: "b"}]) &&
+      JSON.stringify(batch.totals) === JSON.stringify({
+        ampimg: {FAIL: 2, PASS: 1},
+        videosize: {PASS: 2, SKIPPED: 1},
+      }),
+    JSON.stringify(batch),
+  );
+}
+
+async function testLintBatchConcurrency() {
+  const lint = (url: string) => Promise.resolve(report(url, {}));
+  const messages = await Promise.all([0, NaN, 1.5].map(n => lintBatch(["a"], lint, n).then(() => "", e => e.message)));
+  assert(
+    "lintBatch - concurrency that isn't a positive integer",
+    JSON.stringify(messages) === JSON.stringify([
+      "concurrency [0] should be a positive integer",
+      "concurrency [NaN] should be a positive integer",
+      "concurrency [1.5] should be a positive integer",
+    ]),
+    JSON.stringify(messages),
+  );
+}
+
+(async () => {
+  await testReadUrlsList();
+  await testReadUrlsSitemap();
+  await testReadUrlsMissing();
+  await testLintBatch();
+  await testLintBatchConcurrency();
+  plan();
+})();
@@ -0,0 +1,113 @@
+import * as linter from "..";
+import {bookendErrors, getBookendResources} from "../bookend";
+import {assert, fakeContext, jpeg, plan, Resources} from "./helpers";
+
+const GOOD = {
+  bookendVersion: "v1.0",
+  components: [
+    {text: "More to read", type: "heading"},
+    {image: "/square.jpg", title: "Small", type: "small", url: "/small.html"},
+    {image: "/landscape.jpg", title: "Landscape", type: "landscape", url: "/landscape.html"},
+    {image: "/portrait.jpg", title: "Portrait", type: "portrait", url: "/portrait.html"},
+    {links: [{text: "Subscribe", url: "/subscribe.html"}], type: "cta-link"},
+    {text: ["Photos by Jane"], type: "textbox"},
+  ],
+  shareProviders: ["email", {app_id: "123", provider: "facebook"}],
+};
+
+const BAD = {
+  bookendVersion: "v0.1",
+  components: [
+    {title: "Small", type: "small"},
+    {image: "/square.jpg", title: "Landscape", type: "landscape", url: "/missing.html"},
+    {type: "cta-link"},
+    {text: "Photos by Jane", type: "textbox"},
+    {type: "article"},
+  ],
+  shareProviders: ["facebook", "myspace"],
+};
+
+const RESOURCES: Resources = {
+  "https://example.com/landscape.html": "",
+  "https://example.com/landscape.jpg": jpeg(800, 600),
+  "https://example.com/portrait.html": "",
+  "https://example.com/portrait.jpg": jpeg(600, 800),
+  "https://example.com/small.html": "",
+  "https://example.com/square.jpg": jpeg(100, 100),
+  "https://example.com/subscribe.html": "",
+};
+
+function context(bookend: any) {
+  return fakeContext([
+    `<html><body><amp-story standalone>`,
+    `<amp-story-page id="p1"></amp-story-page>`,
+    `<amp-story-bookend src="/bookend.json" layout="nodisplay"></amp-story-bookend>`,
+    `</amp-story></body></html>`,
+  ].join(""), Object.assign({"https://example.com/bookend.json": JSON.stringify(bookend)}, RESOURCES));
+}
+
+function testBookendErrors() {
+  const good = bookendErrors(GOOD);
+  const bad = bookendErrors(BAD);
+  assert(
+    "bookendErrors - version, share providers and per-component fields",
+    good.length === 0 && JSON.stringify(bad) === JSON.stringify([
+      "bookendVersion is [v0.1], expected [v1.0]",
+      "shareProviders[0] (facebook) has no app_id",
+      "shareProviders[1] is [myspace], expected one of " +
+        "[email, facebook, gplus, line, linkedin, pinterest, sms, system, tumblr, twitter, whatsapp]",
+      "components[0] (small) url is missing",
+      "components[2] (cta-link) links is missing",
+      "components[3] (textbox) text is missing (or isn't an array of strings)",
+      "components[4] (article) type is [article], expected one of " +
+        "[cta-link, heading, landscape, portrait, small, textbox]",
+    ]),
+    JSON.stringify([good, bad]),
+  );
+}
+
+function testGetBookendResources() {
+  const {images, links} = getBookendResources(GOOD);
+  assert(
+    "getBookendResources - component links and images",
+    JSON.stringify(links.map(l => l.url)) ===
+      JSON.stringify(["/small.html", "/landscape.html", "/portrait.html", "/subscribe.html"]) &&
+      JSON.stringify(images.map(i => `${i.label} ${i.shape}`)) === JSON.stringify([
+        "components[1] (small) square",
+        "components[2] (landscape) landscape",
+        "components[3] (portrait) portrait",
+      ]),
+    JSON.stringify({images, links}),
+  );
+}
+
+async function testBookendSchema() {
+  const good = await linter.testBookendSchema(context(GOOD));
+  const bad = await linter.testBookendSchema(context(BAD));
+  assert(
+    "testBookendSchema - a message (with the bookend's location) per error",
+    good.length === 0 && bad.length === 7 && bad.every(m => m.status === "FAIL" && !!m.location),
+    JSON.stringify([good, bad]),
+  );
+}
+
+async function testBookendResources() {
+  const good = await linter.testBookendResources(context(GOOD));
+  const bad = await linter.testBookendResources(context(BAD));
+  assert(
+    "testBookendResources - unreachable links and wrongly-shaped images",
+    good.length === 0 && JSON.stringify(bad.map(m => m.message)) === JSON.stringify([
+      "components[1] (landscape) url [https://example.com/missing.html] returned status 404",
+      "components[1] (landscape) image [https://example.com/square.jpg] is 100x100, expected landscape (4:3)",
+    ]),
+    JSON.stringify([good, bad]),
+  );
+}
+
+(async () => {
+  testBookendErrors();
+  testGetBookendResources();
+  await testBookendSchema();
+  await testBookendResources();
+  plan();
+})();
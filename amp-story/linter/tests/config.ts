@@ -0,0 +1,94 @@
+import {mkdirSync, mkdtempSync, writeFileSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+
+import {_applySetting as applySetting, CONFIG_FILENAME, findConfig, loadConfig, Message, RULES} from "..";
+import {assert, plan} from "./helpers";
+
+const RULE_IDS = RULES.map(r => r.id);
+
+/** Writes `config` (as is, if it's a string) to a config file in a new directory. */
+function configFile(config: object|string) {
+  const file = join(mkdtempSync(join(tmpdir(), "amp-story-linter-")), CONFIG_FILENAME);
+  writeFileSync(file, typeof config === "string" ? config : JSON.stringify(config));
+  return file;
+}
+
+/** The message of the error thrown by `fn`, if any. */
+function error(fn: () => any) {
+  try {
+    fn();
+    return "";
+  } catch (e) {
+    return e.message as string;
+  }
+}
+
+function testFindConfig() {
+  const file = configFile({});
+  const dir = join(file, "..", "stories", "2018");
+  mkdirSync(join(dir, ".."));
+  mkdirSync(dir);
+  const empty = mkdtempSync(join(tmpdir(), "amp-story-linter-"));
+  assert(
+    "findConfig - the config in the nearest ancestor",
+    findConfig(dir) === file && findConfig(join(file, "..")) === file && findConfig(empty) === undefined,
+    JSON.stringify([findConfig(dir), findConfig(empty)]),
+  );
+}
+
+function testLoadConfig() {
+  const config = {options: {maxPages: 10}, rules: {ampimg: "off", videosize: "FAIL"}};
+  const loaded = loadConfig(configFile(config), RULE_IDS);
+  assert("loadConfig - valid config", JSON.stringify(loaded) === JSON.stringify(config), JSON.stringify(loaded));
+}
+
+function testLoadConfigErrors() {
+  const errors = [
+    error(() => loadConfig(configFile("{rules: {}}"), RULE_IDS)),
+    error(() => loadConfig(join(tmpdir(), "missing", CONFIG_FILENAME), RULE_IDS)),
+    error(() => loadConfig(configFile({rules: {nosuchrule: "off"}}), RULE_IDS)),
+    error(() => loadConfig(configFile({rules: {ampimg: "ERROR"}}), RULE_IDS)),
+    error(() => loadConfig(configFile({options: {maxPagez: 10}}), RULE_IDS)),
+    error(() => loadConfig(configFile({options: {maxPages: "10"}}), RULE_IDS)),
+  ].map(e => e.replace(/\[\/[^\]]*\]/g, "[FILE]"));
+  assert(
+    "loadConfig - unparseable configs, unknown rules and options, invalid settings and options",
+    errors[0].startsWith("couldn't read/parse config [FILE]: ") &&
+      errors[1].startsWith("couldn't read/parse config [FILE]: ") &&
+      JSON.stringify(errors.slice(2)) === JSON.stringify([
+        "unknown rule [nosuchrule] in config [FILE]",
+        "invalid setting [ERROR] for rule [ampimg] in config [FILE], expected one of [off, FAIL, WARN, INFO]",
+        "unknown option [maxPagez] in config [FILE]",
+        "option [maxPages] in config [FILE] is not a number",
+      ]),
+    JSON.stringify(errors),
+  );
+  const unchecked = error(() => loadConfig(configFile({rules: {nosuchrule: "off"}})));
+  assert("loadConfig - rule ids are only checked if given", unchecked === "", unchecked);
+}
+
+function testApplySetting() {
+  const warn: Message = {message: "too long", status: "WARN"};
+  const statuses = [
+    applySetting(undefined, warn),
+    applySetting("off", warn),
+    applySetting("FAIL", warn),
+    applySetting("INFO", warn),
+    applySetting("FAIL", {status: "PASS"}),
+    applySetting("FAIL", {message: "offline", status: "SKIPPED"}),
+    applySetting("INFO", {message: "timed out", status: "ERROR"}),
+  ].map(m => m.status);
+  assert(
+    "applySetting - a severity replaces the status of WARN, FAIL and INFO messages",
+    JSON.stringify(statuses) === JSON.stringify(["WARN", "WARN", "FAIL", "INFO", "PASS", "SKIPPED", "ERROR"]) &&
+      applySetting("FAIL", warn).message === "too long",
+    JSON.stringify(statuses),
+  );
+}
+
+testFindConfig();
+testLoadConfig();
+testLoadConfigErrors();
+testApplySetting();
+plan();
@@ -0,0 +1,73 @@
+import {Headers, RequestInit, Response, ResponseInit} from "node-fetch";
+
+import * as linter from "..";
+import {assert, fakeContext, plan} from "./helpers";
+
+const SOURCE = [
+  `<html><body><amp-story standalone>`,
+  `<amp-story-page id="p1"></amp-story-page>`,
+  `<amp-story-bookend src="/bookend.json" layout="nodisplay"></amp-story-bookend>`,
+  `</amp-story></body></html>`,
+].join("");
+
+const SOURCE_ORIGIN = encodeURIComponent("https://example.com");
+
+/**
+ * A context whose fetch records its requests, and responds with JSON that
+ * allows the request's origin, unless it's one of `denied`.
+ */
+function context(denied: string[] = []) {
+  const requests: Array<{url: string, headers: {[key: string]: string}}> = [];
+  const fetch = (url: string, init: RequestInit = {}) => {
+    const headers = (init.headers || {}) as {[key: string]: string};
+    requests.push({headers, url});
+    const origin = headers.origin || "https://example.com";
+    return Promise.resolve(new Response("{}", {
+      headers: new Headers({
+        "access-control-allow-origin": denied.indexOf(origin) === -1 ? origin : "https://example.com",
+        "content-type": "application/json",
+      }),
+      status: 200,
+      url,
+    } as ResponseInit));
+  };
+  return {context: Object.assign(fakeContext(SOURCE), {fetch}), requests};
+}
+
+async function testCorsCache() {
+  const {context: ctx, requests} = context(["https://example-com.bing-amp.com"]);
+  const res = await linter.testCorsCache(ctx);
+  assert(
+    "testCorsCache - requests (with each cache's origin) are made with context.fetch",
+    JSON.stringify(requests.map(r => r.headers.origin)) === JSON.stringify([
+      "https://example-com.cdn.ampproject.org",
+      "https://example-com.amp.cloudflare.com",
+      "https://example-com.bing-amp.com",
+    ]) && requests.every(r => r.url === `https://example.com/bookend.json?__amp_source_origin=${SOURCE_ORIGIN}`),
+    JSON.stringify(requests),
+  );
+  assert(
+    "testCorsCache - origins that aren't allowed",
+    res.length === 1 && res[0].status === "FAIL" && (res[0].message as string).indexOf(
+      "access-control-allow-origin header is [https://example.com], expected [https://example-com.bing-amp.com]",
+    ) !== -1,
+    JSON.stringify(res),
+  );
+}
+
+async function testBookendCache() {
+  const {context: ctx, requests} = context();
+  const res = await linter.testBookendCache(ctx);
+  assert(
+    "testBookendCache - the bookend allows the Google AMP Cache origin",
+    res.status === "PASS" && requests.length === 1 &&
+      requests[0].headers.origin === "https://example-com.cdn.ampproject.org",
+    JSON.stringify([res, requests]),
+  );
+}
+
+(async () => {
+  await testCorsCache();
+  await testBookendCache();
+  plan();
+})();
@@ -0,0 +1,195 @@
+import {mkdtempSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+import {Readable} from "stream";
+
+import {Headers, RequestInit, Response, ResponseInit} from "node-fetch";
+
+import {createFetcher} from "../fetcher";
+import {assert, plan} from "./helpers";
+
+/**
+ * A fake `fetch()` that records its requests, and responds with `status`
+ * and `headers` (or 304 if the request's If-None-Match matches the ETag).
+ */
+function fakeFetch(status: number, headers: {[key: string]: string} = {}) {
+  const requests: Array<{url: string, headers: {[key: string]: string}}> = [];
+  const fetch = (url: string, init: RequestInit = {}) => {
+    const h = (init.headers || {}) as {[key: string]: string};
+    requests.push({headers: h, url});
+    const notModified = headers.etag && h["if-none-match"] === headers.etag;
+    return Promise.resolve(new Response(
+      notModified ? "" : `body of ${url}`,
+      {headers: new Headers(headers), status: notModified ? 304 : status, url} as ResponseInit,
+    ));
+  };
+  return {fetch, requests};
+}
+
+async function testDedup() {
+  const fake = fakeFetch(200);
+  const fetcher = createFetcher({fetch: fake.fetch});
+  const bodies = await Promise.all([1, 2, 3].map(() => fetcher("https://example.com/a").then(r => r.text())));
+  await fetcher("https://example.com/a", {headers: {origin: "https://example.org"}});
+  assert(
+    "createFetcher - identical requests are made once",
+    fake.requests.length === 2 && bodies.every(b => b === "body of https://example.com/a"),
+    `requests: ${JSON.stringify(fake.requests)}, bodies: ${JSON.stringify(bodies)}`,
+  );
+}
+
+async function testMemoSize() {
+  // Each body ("body of https://example.com/n") is 27 bytes.
+  const fake = fakeFetch(200);
+  const fetcher = createFetcher({fetch: fake.fetch, memoSize: 60});
+  for (const n of [1, 2, 1, 3, 1, 2]) {
+    await fetcher(`https://example.com/${n}`);
+  }
+  assert(
+    "createFetcher - only the most recently used responses are kept",
+    JSON.stringify(fake.requests.map(r => r.url)) === JSON.stringify([1, 2, 3, 2].map(n => `https://example.com/${n}`)),
+    `requests: ${JSON.stringify(fake.requests)}`,
+  );
+}
+
+async function testFailuresNotRemembered() {
+  let n = 0;
+  const fetcher = createFetcher({
+    fetch: () => ++n === 1 ? Promise.reject(new Error("ECONNRESET")) : Promise.resolve(new Response("ok")),
+    retries: 0,
+  });
+  const first = await fetcher("https://example.com/").then(() => "resolved", e => e.message);
+  const second = await fetcher("https://example.com/").then(r => r.text());
+  assert(
+    "createFetcher - failed requests are made again",
+    first === "ECONNRESET" && second === "ok",
+    `first: ${first}, second: ${second}`,
+  );
+}
+
+async function testMaxAge() {
+  const cacheDir = mkdtempSync(join(tmpdir(), "amp-story-linter-"));
+  const fake = fakeFetch(200, {"cache-control": "max-age=3600"});
+  await createFetcher({cacheDir, fetch: fake.fetch})("https://example.com/fresh");
+  const body = await createFetcher({cacheDir, fetch: fake.fetch})("https://example.com/fresh").then(r => r.text());
+  assert(
+    "createFetcher - fresh responses are read from the cache",
+    fake.requests.length === 1 && body === "body of https://example.com/fresh",
+    `requests: ${fake.requests.length}, body: ${body}`,
+  );
+}
+
+async function testETag() {
+  const cacheDir = mkdtempSync(join(tmpdir(), "amp-story-linter-"));
+  const fake = fakeFetch(200, {"cache-control": "no-cache", "etag": `"v1"`});
+  await createFetcher({cacheDir, fetch: fake.fetch})("https://example.com/stale");
+  const res = await createFetcher({cacheDir, fetch: fake.fetch})("https://example.com/stale");
+  const body = await res.text();
+  assert(
+    "createFetcher - stale responses are revalidated with If-None-Match",
+    fake.requests.length === 2 && fake.requests[1].headers["if-none-match"] === `"v1"` &&
+      res.status === 200 && body === "body of https://example.com/stale",
+    `requests: ${JSON.stringify(fake.requests)}, status: ${res.status}, body: ${body}`,
+  );
+}
+
+async function testNoStore() {
+  const cacheDir = mkdtempSync(join(tmpdir(), "amp-story-linter-"));
+  const fake = fakeFetch(200, {"cache-control": "no-store, max-age=3600"});
+  await createFetcher({cacheDir, fetch: fake.fetch})("https://example.com/private");
+  await createFetcher({cacheDir, fetch: fake.fetch})("https://example.com/private");
+  assert(
+    "createFetcher - no-store responses aren't cached",
+    fake.requests.length === 2,
+    `requests: ${fake.requests.length}`,
+  );
+}
+
+async function testPerHost() {
+  let active = 0;
+  let maxActive = 0;
+  const fetcher = createFetcher({
+    fetch: (url: string) => {
+      maxActive = Math.max(maxActive, ++active);
+      return new Promise(resolve => setTimeout(() => { active--; resolve(new Response(url)); }, 10));
+    },
+    perHost: 2,
+  });
+  await Promise.all([1, 2, 3, 4, 5].map(n => fetcher(`https://example.com/${n}`)));
+  assert("createFetcher - concurrency is limited per host", maxActive === 2, `max concurrent: ${maxActive}`);
+}
+
+async function testRetries() {
+  const statuses = [503, 429, 200];
+  const fake = fakeFetch(200);
+  const fetcher = createFetcher({
+    fetch: (url: string, init?: RequestInit) => fake.fetch(url, init).then(() => {
+      return new Response("", {status: statuses[fake.requests.length - 1]} as ResponseInit);
+    }),
+    retryDelay: 1,
+  });
+  const res = await fetcher("https://example.com/flaky");
+  assert(
+    "createFetcher - 429 and 5xx responses are retried",
+    fake.requests.length === 3 && res.status === 200,
+    `requests: ${fake.requests.length}, status: ${res.status}`,
+  );
+  const failing = fakeFetch(503);
+  const status = await createFetcher({fetch: failing.fetch, retries: 1, retryDelay: 1})("https://example.com/down")
+    .then(r => r.status);
+  assert(
+    "createFetcher - the last response is returned once retries are exhausted",
+    failing.requests.length === 2 && status === 503,
+    `requests: ${failing.requests.length}, status: ${status}`,
+  );
+}
+
+async function testTimeout() {
+  let n = 0;
+  const fetcher = createFetcher({
+    fetch: () => { n++; return new Promise(() => undefined); },
+    retries: 1,
+    retryDelay: 1,
+    timeout: 10,
+  });
+  const code = await fetcher("https://example.com/slow").then(() => "resolved", e => e.code);
+  assert(
+    "createFetcher - requests time out (and are retried)",
+    code === "ETIMEDOUT" && n === 2,
+    `code: ${code}, requests: ${n}`,
+  );
+}
+
+async function testRangeIgnored() {
+  let sent = 0;
+  const fetcher = createFetcher({
+    // An endless body, as if the server ignored the Range header.
+    fetch: (url: string) => Promise.resolve(new Response(new Readable({
+      read() {
+        sent += 1000;
+        this.push(Buffer.alloc(1000));
+      },
+    }), {status: 200, url} as ResponseInit)),
+  });
+  const res = await fetcher("https://example.com/huge.mp4", {headers: {range: "bytes=0-4999"}});
+  const length = (await res.buffer()).length;
+  assert(
+    "createFetcher - only the requested range is read if the server sends the whole body",
+    res.status === 200 && length === 5000 && sent < 100000,
+    `status: ${res.status}, length: ${length}, sent: ${sent}`,
+  );
+}
+
+(async () => {
+  await testDedup();
+  await testMemoSize();
+  await testFailuresNotRemembered();
+  await testMaxAge();
+  await testETag();
+  await testNoStore();
+  await testPerHost();
+  await testRetries();
+  await testTimeout();
+  await testRangeIgnored();
+  plan();
+})();
@@ -0,0 +1,107 @@
+import {mkdirSync, mkdtempSync, writeFileSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+
+import {Config, findStories, lintFile, RULES} from "..";
+import {assert, fakeFetch, jpeg, plan} from "./helpers";
+
+const STORY = [
+  `<!doctype html>`,
+  `<html ⚡>`,
+  `<body>`,
+  `<amp-story standalone>`,
+  `<amp-story-page id="p1">`,
+  `<amp-story-grid-layer template="fill">`,
+  `<amp-img src="img/huge.jpg" width="720" height="1280" layout="responsive"></amp-img>`,
+  `<amp-img src="/img/remote.jpg" width="720" height="1280" layout="responsive"></amp-img>`,
+  `</amp-story-grid-layer>`,
+  `</amp-story-page>`,
+  `<amp-story-bookend src="bookend.json" layout="nodisplay"></amp-story-bookend>`,
+  `</amp-story>`,
+  `</body>`,
+  `</html>`,
+].join("\n");
+
+/**
+ * A directory containing stories (and files that aren't stories, or are in
+ * directories that are ignored), and the assets of one of them.
+ */
+function fixture() {
+  const root = mkdtempSync(join(tmpdir(), "amp-story-linter-"));
+  [".git", "node_modules", "stories", "stories/img", "stories/more"].forEach(d => mkdirSync(join(root, d)));
+  writeFileSync(join(root, "index.html"), "<!doctype html><html><body>Not a story</body></html>");
+  writeFileSync(join(root, "stories/one.html"), STORY);
+  writeFileSync(join(root, "stories/more/two.htm"), STORY);
+  writeFileSync(join(root, "stories/notes.txt"), "<amp-story>");
+  writeFileSync(join(root, ".git/story.html"), STORY);
+  writeFileSync(join(root, "node_modules/story.html"), STORY);
+  writeFileSync(join(root, "stories/img/huge.jpg"), jpeg(720, 1280, 800000));
+  writeFileSync(join(root, "stories/bookend.json"), JSON.stringify({bookendVersion: "v1.0", components: []}));
+  return root;
+}
+
+// Only the rules that show how local files are handled.
+const CONFIG: Config = {
+  rules: RULES.filter(r => ["ampimg", "corscache", "imgweight"].indexOf(r.id) === -1).reduce(
+    (a: {[id: string]: "off"}, r) => { a[r.id] = "off"; return a; },
+    {},
+  ),
+};
+
+function testFindStories() {
+  const root = fixture();
+  const stories = findStories(root).map(s => s.substring(root.length));
+  assert(
+    "findStories - HTML files containing <amp-story>, except in hidden directories and node_modules",
+    JSON.stringify(stories) === JSON.stringify(["/stories/more/two.htm", "/stories/one.html"]),
+    JSON.stringify(stories),
+  );
+}
+
+async function testLintFile() {
+  const root = fixture();
+  const fetch = () => Promise.reject(new Error("unexpected request"));
+  const report = await lintFile(join(root, "stories/one.html"), CONFIG, {fetch});
+  const messages = report.findings.map(f => `${f.rule} ${f.status} ${f.message}`);
+  const base = `file://${join(root, "stories")}`;
+  assert(
+    "lintFile - assets are read from the file's directory, and CORS can't be checked",
+    report.url === `${base}/one.html` && JSON.stringify(messages) === JSON.stringify([
+      "ampimg FAIL [/img/remote.jpg] returned status 404",
+      "imgweight WARN [img/huge.jpg] is 800KB, expected at most 500KB",
+      `corscache INFO [${base}/bookend.json] is a local file; can't check AMP Cache CORS headers`,
+      `corscache INFO [${base}/bookend.json] is a local file; can't check AMP Cache CORS headers`,
+      `corscache INFO [${base}/bookend.json] is a local file; can't check AMP Cache CORS headers`,
+    ]),
+    JSON.stringify(report),
+  );
+}
+
+async function testLintFileBaseUrl() {
+  const root = fixture();
+  const fetch = fakeFetch({"https://example.com/img/remote.jpg": jpeg(720, 1280, 600000)});
+  const report = await lintFile(
+    join(root, "stories/one.html"),
+    CONFIG,
+    {baseUrl: "https://example.com/stories", fetch, root: join(root, "stories")},
+  );
+  const messages = report.findings.map(f => `${f.rule} ${f.status} ${f.message}`);
+  assert(
+    "lintFile - URLs under the base URL are read from the root, if they exist there, otherwise fetched",
+    report.url === "https://example.com/stories/one.html" && JSON.stringify(messages) === JSON.stringify([
+      "imgweight WARN [img/huge.jpg] is 800KB, expected at most 500KB",
+      "imgweight WARN [/img/remote.jpg] is 600KB, expected at most 500KB",
+      "corscache INFO [https://example.com/stories/bookend.json] is a local file; can't check AMP Cache CORS headers",
+      "corscache INFO [https://example.com/stories/bookend.json] is a local file; can't check AMP Cache CORS headers",
+      "corscache INFO [https://example.com/stories/bookend.json] is a local file; can't check AMP Cache CORS headers",
+    ]),
+    JSON.stringify(report),
+  );
+}
+
+(async () => {
+  testFindStories();
+  await testLintFile();
+  await testLintFileBaseUrl();
+  plan();
+})();
@@ -0,0 +1,165 @@
+import * as linter from "..";
+import {assert, fakeContext, jpeg, plan, Resources} from "./helpers";
+
+const RESOURCES: Resources = {
+  // A bookend in the 0.1 format.
+  "https://example.com/bookend.json": JSON.stringify({"related-articles": {}, "share-providers": {email: true}}),
+  "https://example.com/wide.jpg": jpeg(800, 400),
+};
+
+function context(source: string, offline = false): linter.Context {
+  return Object.assign(fakeContext(source, RESOURCES, linter.FIX_PARSER_OPTIONS), {offline});
+}
+
+const STORY = (head: string, body: string) => [
+  `<!doctype html>`,
+  `<html ⚡ lang="en">`,
+  `  <head>`,
+  head,
+  `  </head>`,
+  `  <body>`,
+  `    <amp-story standalone title="Caf&eacute; &amp; friends">`,
+  `      <amp-story-page id="p1">`,
+  body,
+  `      </amp-story-page>`,
+  `    </amp-story>`,
+  `  </body>`,
+  `</html>`,
+].join("\n");
+
+const HEAD = [
+  `    <title>Story</title>`,
+  `    <meta charset="utf-8">`,
+  `    <script async src="https://cdn.ampproject.org/v0.js"></script>`,
+  `    <script async custom-element="amp-story" src="https://cdn.ampproject.org/v0/amp-story-0.1.js"></script>`,
+].join("\n");
+
+const BODY = [
+  `        <amp-img src="/wide.jpg" width="400" height="400" layout="responsive"></amp-img>`,
+  `        <amp-video src="/clip.mp4" width="720" height="1280" layout="responsive"></amp-video>`,
+].join("\n");
+
+const FIXED_HEAD = [
+  `    <meta charset="utf-8">`,
+  `    <link rel="preload" as="script" href="https://cdn.ampproject.org/v0.js">`,
+  `    <title>Story</title>`,
+  `    <script async src="https://cdn.ampproject.org/v0.js"></script>`,
+  `    <script async custom-element="amp-story" src="https://cdn.ampproject.org/v0/amp-story-1.0.js"></script>`,
+].join("\n");
+
+const FIXED_BODY = [
+  `        <amp-img src="/wide.jpg" width="400" height="200" layout="responsive"></amp-img>`,
+  `        <amp-video width="720" height="1280" layout="responsive">` +
+    `<source src="/clip.mp4" type="video/mp4"></amp-video>`,
+].join("\n");
+
+async function testFixAll() {
+  const res = await linter.fixAll(context(STORY(HEAD, BODY)));
+  assert(
+    "fixAll - applies the fixes, leaving the rest of the document (including bare attributes) as it was",
+    res.source === STORY(FIXED_HEAD, FIXED_BODY) &&
+      JSON.stringify(res.changes.map(c => c.rule)) ===
+        JSON.stringify(["ampstoryv1", "videosource", "runtimepreloaded", "metacharsetfirst", "ampimg"]),
+    JSON.stringify(res),
+  );
+}
+
+async function testFixAllIdempotent() {
+  const source = STORY(FIXED_HEAD, FIXED_BODY);
+  const res = await linter.fixAll(context(source));
+  assert(
+    "fixAll - nothing to fix",
+    res.source === source && res.changes.length === 0,
+    JSON.stringify(res),
+  );
+}
+
+async function testFixAllConfig() {
+  const source = STORY(HEAD, BODY);
+  const res = await linter.fixAll(context(source, true), {rules: {ampstoryv1: "off", videosource: "off"}});
+  assert(
+    "fixAll - rules that are off, or need the network when offline, aren't fixed",
+    JSON.stringify(res.changes.map(c => c.rule)) === JSON.stringify(["runtimepreloaded", "metacharsetfirst"]),
+    JSON.stringify(res),
+  );
+}
+
+async function testFixMetaCharsetMissing() {
+  const res = await linter.fixAll(context(STORY(`    <title>Story</title>`, "")), {rules: {runtimepreloaded: "off"}});
+  assert(
+    "fixAll - adds a missing <meta charset>",
+    res.source === STORY(`    <meta charset="utf-8">\n    <title>Story</title>`, ""),
+    JSON.stringify(res),
+  );
+}
+
+const JSON_LD = [
+  `    <script type="application/ld+json">`,
+  `      {"@type": "NewsArticle", "headline": "Story", "image": "/poster.jpg",`,
+  `       "publisher": {"@type": "Organization", "name": "Example", "logo": {"url": "/logo.jpg"}}}`,
+  `    </script>`,
+].join("\n");
+
+const V01_STORY = (head: string) => [
+  `<!doctype html>`,
+  `<html amp="" lang="en">`,
+  `  <head>`,
+  `    <script async custom-element="amp-story" src="https://cdn.ampproject.org/v0/amp-story-0.1.js"></script>`,
+  head,
+  `  </head>`,
+  `  <body>`,
+  `    <amp-story standalone bookend-config-src="/bookend.json">`,
+  `      <amp-story-page id="p1"></amp-story-page>`,
+  `    </amp-story>`,
+  `  </body>`,
+  `</html>`,
+].join("\n");
+
+async function testMigrate() {
+  const res = await linter.migrate(context(V01_STORY(JSON_LD)));
+  const expected = V01_STORY(JSON_LD)
+    .replace("amp-story-0.1.js", "amp-story-1.0.js")
+    .replace(
+      ` bookend-config-src="/bookend.json">`,
+      ` poster-portrait-src="/poster.jpg" publisher="Example" publisher-logo-src="/logo.jpg" title="Story">`,
+    )
+    .replace(
+      `<amp-story-page id="p1"></amp-story-page>`,
+      `<amp-story-page id="p1"></amp-story-page>\n` +
+        `      <amp-story-bookend src="/bookend.json" layout="nodisplay"></amp-story-bookend>`,
+    );
+  assert(
+    "migrate - extension script, bookend and metadata from the JSON-LD, leaving attributes as they were written",
+    res.source === expected && res.changes.length === 6 && JSON.stringify(res.problems) === JSON.stringify([
+      "bookend [https://example.com/bookend.json] needs to be converted to the v1.0 format " +
+        "(see https://www.ampproject.org/docs/reference/components/amp-story-bookend)",
+    ]) && JSON.stringify(res.warnings) === JSON.stringify([
+      "poster-portrait-src was taken from the JSON-LD image, which might not be 3:4 (portrait)",
+    ]),
+    JSON.stringify(res),
+  );
+}
+
+async function testMigrateWithoutJsonLd() {
+  const res = await linter.migrate(context(V01_STORY(""), true));
+  assert(
+    "migrate - reports the metadata that couldn't be taken from the JSON-LD",
+    JSON.stringify(res.problems) === JSON.stringify([
+      "<amp-story poster-portrait-src> is missing, and couldn't be taken from the JSON-LD",
+      "<amp-story publisher> is missing, and couldn't be taken from the JSON-LD",
+      "<amp-story publisher-logo-src> is missing, and couldn't be taken from the JSON-LD",
+      "<amp-story title> is missing, and couldn't be taken from the JSON-LD",
+    ]),
+    JSON.stringify(res),
+  );
+}
+
+(async () => {
+  await testFixAll();
+  await testFixAllIdempotent();
+  await testFixAllConfig();
+  await testFixMetaCharsetMissing();
+  await testMigrate();
+  await testMigrateWithoutJsonLd();
+  plan();
+})();
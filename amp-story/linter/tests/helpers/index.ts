@@ -0,0 +1,72 @@
+import * as cheerio from "cheerio";
+import {Headers, Response, ResponseInit} from "node-fetch";
+import {extname} from "path";
+
+import * as linter from "../..";
+
+/** The URL of the documents created by `fakeContext()`. */
+export const BASE = "https://example.com/";
+
+let COUNT = 0;
+
+export function assert(testName: string, ok: boolean, diagnostic: string) {
+  COUNT++;
+  console.log(ok ? `ok ${COUNT} - ${testName}` : `not ok ${COUNT} - ${testName} [${diagnostic}]`);
+}
+
+/** Prints the TAP plan; call once all the tests have run. */
+export function plan() {
+  console.log(`1..${COUNT}`);
+}
+
+/** A JPEG (just the SOF0 header, padded to `bytes`) of the given size. */
+export function jpeg(width: number, height: number, bytes = 1000) {
+  const sof = Buffer.from([0xFF, 0xD8, 0xFF, 0xC0, 0x00, 0x11, 0x08, 0, 0, 0, 0, 0x03]);
+  sof.writeUInt16BE(height, 7);
+  sof.writeUInt16BE(width, 9);
+  return Buffer.concat([sof, Buffer.alloc(bytes - sof.length)]);
+}
+
+export interface Resources {
+  [url: string]: string|Buffer;
+}
+
+const CONTENT_TYPES: {[ext: string]: string} = {
+  ".html": "text/html",
+  ".jpg": "image/jpeg",
+  ".json": "application/json",
+};
+
+/**
+ * A fake `fetch()` that responds with the body in `resources` (with a
+ * content-type that depends on the extension), or 404 if there isn't one.
+ *
+ * @param resources bodies, by (absolute) URL
+ */
+export function fakeFetch(resources: Resources): linter.Fetch {
+  return (url: string) => {
+    if (!(url in resources)) {
+      return Promise.resolve(new Response("", {status: 404, url} as ResponseInit));
+    }
+    const headers = new Headers({"content-type": CONTENT_TYPES[extname(url)] || "application/octet-stream"});
+    return Promise.resolve(new Response(resources[url], {headers, status: 200, url} as ResponseInit));
+  };
+}
+
+/**
+ * The context for linting `source` (as if it were at `BASE`), with requests
+ * answered from `resources` (see `fakeFetch()`). `source` is parsed with
+ * `parserOptions` if given, otherwise as `loadSource()` does.
+ *
+ * @param source
+ * @param resources
+ * @param parserOptions
+ */
+export function fakeContext(
+  source: string,
+  resources: Resources = {},
+  parserOptions?: CheerioOptionsInterface,
+): linter.Context {
+  const $ = parserOptions ? cheerio.load(source, parserOptions) : linter.loadSource(source);
+  return {$, fetch: fakeFetch(resources), headers: {}, source, url: BASE};
+}
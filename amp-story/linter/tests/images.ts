@@ -0,0 +1,187 @@
+import {Headers, RequestInit, Response, ResponseInit} from "node-fetch";
+
+import * as linter from "..";
+import {assert, BASE, fakeContext, jpeg, plan, Resources} from "./helpers";
+
+const IMAGES: Resources = {
+  "https://example.com/huge.jpg": jpeg(4000, 6000, 800000),
+  "https://example.com/large.jpg": jpeg(720, 1280, 200000),
+  "https://example.com/logo.jpg": jpeg(96, 96, 2000),
+  "https://example.com/poster.jpg": jpeg(720, 960, 50000),
+  "https://example.com/small.jpg": jpeg(720, 1280, 50000),
+};
+
+function context(body: string) {
+  return fakeContext([
+    `<html><body><amp-story standalone publisher-logo-src="/logo.jpg" poster-portrait-src="/poster.jpg">`,
+    `<amp-story-page id="p1">${body}</amp-story-page>`,
+    `</amp-story></body></html>`,
+  ].join(""), IMAGES);
+}
+
+const FILL = (src: string, attrs = "") => [
+  `<amp-story-grid-layer template="fill">`,
+  `<amp-img src="${src}" width="720" height="1280" layout="responsive" ${attrs}></amp-img>`,
+  `</amp-story-grid-layer>`,
+].join("");
+
+async function testImgWeight() {
+  const res = await linter.testImgWeight(context(FILL("/huge.jpg") + FILL("/small.jpg")));
+  assert(
+    "testImgWeight - images over maxImageSize",
+    res.length === 1 && res[0].message === "[/huge.jpg] is 800KB, expected at most 500KB",
+    JSON.stringify(res),
+  );
+}
+
+async function testImgMissing() {
+  const c = context(FILL("/missing.jpg"));
+  const res = await Promise.all([linter.testImgWeight, linter.testImgOversized, linter.testImgFormat].map(t => t(c)));
+  assert(
+    "testImgWeight etc. - images that can't be loaded are left to testAmpImg",
+    JSON.stringify(res) === JSON.stringify([[], [], []]),
+    JSON.stringify(res),
+  );
+}
+
+async function testImgOversized() {
+  const res = await linter.testImgOversized(context(FILL("/huge.jpg") + FILL("/large.jpg")));
+  assert(
+    "testImgOversized - images much larger than the viewport",
+    res.length === 1 && /^\[\/huge\.jpg\] is 4000x6000, but is rendered at 412x732/.test(res[0].message as string),
+    JSON.stringify(res),
+  );
+}
+
+async function testImgSrcset() {
+  const srcset = `srcset="/small.jpg 720w, /large.jpg 1080w"`;
+  const res = await linter.testImgSrcset(context(FILL("/large.jpg") + FILL("/large.jpg", srcset)));
+  assert(
+    "testImgSrcset - large images without srcset",
+    res.length === 1 && res[0].message === "[/large.jpg] is 200KB but has no srcset",
+    JSON.stringify(res),
+  );
+}
+
+async function testImgFormat() {
+  const body = [
+    FILL("/large.jpg"),
+    `<amp-story-grid-layer template="fill">`,
+    `<amp-img src="/large.webp" width="720" height="1280" layout="responsive">`,
+    `<amp-img fallback src="/large.jpg" width="720" height="1280" layout="responsive"></amp-img>`,
+    `</amp-img>`,
+    `</amp-story-grid-layer>`,
+  ].join("");
+  const res = await linter.testImgFormat(context(body));
+  const statuses = res.map(m => m.status).sort();
+  // (The .webp isn't in IMAGES, which is left to testAmpImg to report.)
+  assert(
+    "testImgFormat - large JPEGs without a modern alternative",
+    JSON.stringify(statuses) === `["INFO"]` &&
+      res.filter(m => m.status === "INFO")[0].message === "[/large.jpg] is a 200KB JPEG; WebP or AVIF would be smaller",
+    JSON.stringify(res),
+  );
+}
+
+async function testPageWeight() {
+  const ok = await linter.testPageWeight(context(FILL("/large.jpg") + FILL("/small.jpg")));
+  const over = await linter.testPageWeight(
+    Object.assign(context(FILL("/huge.jpg") + FILL("/large.jpg")), {options: {maxPageWeight: 1000000}}),
+  );
+  const message = over.message as linter.ActualExpected;
+  assert(
+    "testPageWeight - total size of the document and images",
+    ok.status === "PASS" && over.status === "WARN" && message.actual === "1.1MB (4 images)",
+    JSON.stringify([ok, over]),
+  );
+}
+
+async function testSchemaImages() {
+  const article = {
+    "@type": "NewsArticle",
+    "image": ["https://example.com/poster.jpg", "https://example.com/logo.jpg"],
+    "publisher": {"@type": "Organization", "logo": {"@type": "ImageObject", "url": "https://example.com/huge.jpg"}},
+  };
+  const ctx = context("");
+  ctx.$("head").append(`<script type="application/ld+json">${JSON.stringify(article)}</script>`);
+  const res = await linter.testSchemaImages(ctx);
+  assert(
+    "testSchemaImages - actual size of the Article image and publisher logo",
+    JSON.stringify(res.map(m => m.message)) === JSON.stringify([
+      "image [https://example.com/logo.jpg] width is 96px, expected at least 696px",
+      "publisher.logo [https://example.com/huge.jpg] width is 4000px, expected at most 600px, " +
+        "height is 6000px, expected at most 60px",
+    ]),
+    JSON.stringify(res),
+  );
+}
+
+async function testSocialImages() {
+  const ctx = context("");
+  ctx.$("head").append([
+    `<meta property="og:image" content="/large.jpg">`,
+    `<meta name="twitter:card" content="summary_large_image">`,
+    `<meta name="twitter:image" content="/logo.jpg">`,
+  ].join(""));
+  const res = await linter.testSocialImages(ctx);
+  assert(
+    "testSocialImages - Open Graph and Twitter card image sizes",
+    JSON.stringify(res.map(m => m.message)) === JSON.stringify([
+      {actual: "og:image 720x1280", expected: "og:image at least 1200x630"},
+      {actual: "twitter:image 96x96", expected: "twitter:image at least 300x157"},
+    ]),
+    JSON.stringify(res),
+  );
+}
+
+/**
+ * The size found by `getImageSize()` of an 800KB image (and the Range header
+ * of each request made) from a server that responds as `respond` does.
+ */
+async function imageSize(respond: (image: Buffer, range?: string) => Response) {
+  const image = jpeg(720, 1280, 800000);
+  const ranges: Array<string|undefined> = [];
+  const fetch = (url: string, init: RequestInit = {}) => {
+    const range = (init.headers as {[key: string]: string}).range;
+    ranges.push(range);
+    return Promise.resolve(respond(image, range));
+  };
+  const size = await linter._getImageSize(Object.assign(fakeContext(""), {fetch}), `${BASE}image.jpg`);
+  return {bytes: size.bytes, ranges, width: size.width};
+}
+
+async function testGetImageSize() {
+  const response = (body: Buffer, status: number, headers: {[key: string]: string}) => {
+    return new Response(body, {headers: new Headers(headers), status} as ResponseInit);
+  };
+  const sizes = [
+    await imageSize((image, range) => range ?
+      response(image.slice(0, 128000), 206, {"content-range": `bytes 0-127999/${image.length}`}) :
+      response(image, 200, {})),
+    await imageSize(image => response(image, 200, {"content-length": `${image.length}`})),
+    await imageSize(image => response(image, 200, {})),
+  ];
+  const probed = "bytes=0-127999";
+  assert(
+    "getImageSize - only reads the start of the image, if the size is in Content-Range or Content-Length",
+    JSON.stringify(sizes) === JSON.stringify([
+      {bytes: 800000, ranges: [probed], width: 720},
+      {bytes: 800000, ranges: [probed], width: 720},
+      {bytes: 800000, ranges: [probed, undefined], width: 720},
+    ]),
+    JSON.stringify(sizes),
+  );
+}
+
+(async () => {
+  await testGetImageSize();
+  await testImgWeight();
+  await testImgMissing();
+  await testImgOversized();
+  await testImgSrcset();
+  await testImgFormat();
+  await testPageWeight();
+  await testSchemaImages();
+  await testSocialImages();
+  plan();
+})();
@@ -2,7 +2,6 @@ const FIXTURES = __dirname + "/local";
 
 import {basename} from "path";
 
-import * as cheerio from "cheerio";
 import {diffJson as diff} from "diff";
 import * as fs from "fs";
 
@@ -24,11 +23,20 @@ async function run(prefix: string) {
     return;
   }
 
+  const source = (() => {
+    try {
+      return fs.readFileSync(`${prefix}/source.html`).toString();
+    } catch (e) {
+      console.error(`error: can't read ${prefix}/source.html, skipping ${prefix}`);
+      return null;
+    }
+  })();
+
   const $ = (() => {
     try {
-      return cheerio.load(fs.readFileSync(`${prefix}/source.html`).toString());
+      return source === null ? null : linter.loadSource(source);
     } catch (e) {
-      console.error(`error: can't read/parse ${prefix}/source.html, skipping ${prefix}`);
+      console.error(`error: can't parse ${prefix}/source.html, skipping ${prefix}`);
       return null;
     }
   })();
@@ -42,7 +50,7 @@ async function run(prefix: string) {
     }
   })();
 
-  if (!$ || !expected) { return; }
+  if (!source || !$ || !expected) { return; }
 
   const url = expected._url || "https://example.com/";
 
@@ -50,6 +58,7 @@ async function run(prefix: string) {
   const context = {
     $,
     headers: {},
+    source,
     url
   };
   const actual = await fn(context);
@@ -0,0 +1,44 @@
+import * as linter from "..";
+import {assert, BASE, fakeContext, plan} from "./helpers";
+
+function context(manifest: string) {
+  return fakeContext([
+    `<html><head><link rel="manifest" href="/manifest.json"></head>`,
+    `<body><amp-story standalone></amp-story></body></html>`,
+  ].join(""), {"https://example.com/manifest.json": manifest});
+}
+
+async function testManifest() {
+  const manifests = [
+    JSON.stringify({icons: [{sizes: "192x192", src: "/icon.png"}], name: "Stories"}),
+    JSON.stringify({short_name: "Stories"}),
+    "null",
+    "[]",
+    `"Stories"`,
+    "{name:",
+  ];
+  const messages: string[] = [];
+  for (const manifest of manifests) {
+    const m = await linter.testManifest(context(manifest));
+    messages.push(`${m.status} ${m.message || ""} ${m.location ? m.location.line : ""}`.trim());
+  }
+  const url = `${BASE}manifest.json`;
+  const expected = [
+    "PASS",
+    `WARN manifest [${url}] has no icons 1`,
+    `WARN manifest [${url}] is not a JSON object 1`,
+    `WARN manifest [${url}] has no name or icons 1`,
+    `WARN manifest [${url}] is not a JSON object 1`,
+    `FAIL couldn't parse manifest [${url}] as JSON: {name: 1`,
+  ];
+  assert(
+    "testManifest - manifests that aren't JSON, or aren't JSON objects, or have no name or icons",
+    JSON.stringify(messages) === JSON.stringify(expected),
+    JSON.stringify(messages),
+  );
+}
+
+(async () => {
+  await testManifest();
+  plan();
+})();
@@ -234,25 +234,27 @@ withFixture("thumbnails3", () => assertMatch(
     linter.testThumbnails,
     "http://localhost:5000/"
   ),
-  "not 200"
+  "returned status 404"
 ));
 
 withFixture("testvalidity1", () => assertEqual(
   "testValidity - valid",
-  runTest(
+  runTestList(
     linter.testValidity,
     "https://www.ampproject.org/"
   ),
-  PASS
+  []
 ));
 
-withFixture("testvalidity2", async () => assertNotEqual(
+withFixture("testvalidity2", async () => assertFn<linter.Message[]>(
   "testValidity - not valid",
-  runTest(
+  runTestList(
     linter.testValidity,
     "https://precious-sturgeon.glitch.me/"
   ),
-  PASS
+  (res) => {
+    return res.some(m => m.status === "FAIL") ? "" : "expected at least one error";
+  }
 ));
 
 withFixture("testcanonical1", () => assertEqual(
@@ -284,32 +286,39 @@ withFixture("testcanonical3", () => assertEqual(
 
 withFixture("testvideosize1", () => assertEqual(
   "testVideoSize - too big",
-  runTest(
+  runTestList(
     linter.testVideoSize,
     "https://regular-biology.glitch.me/"
   ),
-  {
-    message: "videos over 4MB: [https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4]",
+  [{
+    location: {
+      html: [
+        `<amp-video autoplay src="https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4" `,
+        `poster="https://peach.blender.org/wp-content/uploads/bbb-splash.png" artwork="img/bigbuckbu...`,
+      ].join(""),
+      selector: "html > body > amp-video",
+    },
+    message: "video [https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4] is over 4MB",
     status: "FAIL"
-  }
+  }]
 ));
 
 withFixture("testvideosize2", () => assertEqual(
   "testVideoSize - good size #1",
-  runTest(
+  runTestList(
     linter.testVideoSize,
     "https://regular-biology.glitch.me/"
   ),
-  PASS
+  []
 ));
 
 withFixture("testvideosize3", () => assertEqual(
   "testVideoSize - good size #2",
-  runTest(
+  runTestList(
     linter.testVideoSize,
     "https://ampbyexample.com/stories/features/media/preview/embed/"
   ),
-  PASS
+  []
 ));
 
 withFixture("bookendsameorigin1", () => assertEqual(
@@ -495,5 +504,18 @@ withFixture("cors4", () => assertEqual(
   []
 ));
 
+withFixture("testcanonical1", () => assertFn<linter.LintReport>(
+  "testAll - offline",
+  runCheerioFn(
+    ($, url) => linter.testAll({$, headers: {}, offline: true, url: url!}, {rules: {validity: "off"}}),
+    "https://regular-biology.glitch.me/"
+  ),
+  (report) => {
+    const network = linter.RULES.filter(r => r.network).map(r => r.id);
+    const notSkipped = network.filter(id => report.summary[id].status !== "SKIPPED");
+    return notSkipped.length === 0 ? "" : `expected SKIPPED, got ${JSON.stringify(notSkipped)}`;
+  }
+));
+
 console.log("# dummy"); // https://github.com/scottcorgan/tap-spec/issues/63 (sigh)
-console.log(`1..30`);
+console.log(`1..31`);
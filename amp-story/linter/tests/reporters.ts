@@ -0,0 +1,186 @@
+import {exitCode, LintReport, RULES} from "..";
+import {BATCH_REPORTERS, junit, sarif, tap, text} from "../reporters";
+import {assert, plan} from "./helpers";
+
+const REPORT: LintReport = {
+  findings: [
+    {
+      category: "media",
+      location: {column: 11, html: `<amp-img src="a.jpg">`, line: 23, selector: "amp-story-page#p1 > amp-img"},
+      message: `<amp-img src=a.jpg> is 2x the size of "a.jpg" & friends`,
+      rule: "ampimg",
+      status: "FAIL",
+    },
+    {category: "media", message: {actual: "20s", expected: "at most 15s"}, rule: "videoduration", status: "WARN"},
+    {
+      category: "cors",
+      code: "ETIMEDOUT",
+      message: "couldn't check XHR [https://example.com/bookend.json]: timed out",
+      rule: "bookendcache",
+      status: "ERROR",
+    },
+    {category: "cors", message: "offline", rule: "corscache", status: "SKIPPED"},
+    {category: "accessibility", message: "contrast is 4.4:1, expected 4.5:1", rule: "contrast", status: "INFO"},
+  ],
+  summary: {
+    ampimg: {findings: 1, status: "FAIL"},
+    ampstory: {findings: 0, status: "PASS"},
+    bookendcache: {findings: 1, status: "ERROR"},
+    contrast: {findings: 1, status: "INFO"},
+    corscache: {findings: 1, status: "SKIPPED"},
+    videoduration: {findings: 1, status: "WARN"},
+  },
+  url: "https://example.com/story.html",
+};
+
+const ruleIndex = (id: string) => RULES.map(r => r.id).indexOf(id);
+
+function testSarif() {
+  const log = JSON.parse(sarif(REPORT, RULES));
+  const results = log.runs[0].results as any[];
+  const actual = results.map(r => [r.ruleId, r.level, r.kind, r.ruleIndex]);
+  assert(
+    "sarif - level, kind and ruleIndex of each status",
+    JSON.stringify(actual) === JSON.stringify([
+      ["ampimg", "error", undefined, ruleIndex("ampimg")],
+      ["videoduration", "warning", undefined, ruleIndex("videoduration")],
+      ["bookendcache", "none", "open", ruleIndex("bookendcache")],
+      ["corscache", "none", "notApplicable", ruleIndex("corscache")],
+      ["contrast", "note", undefined, ruleIndex("contrast")],
+    ]) && results.every(r => r.ruleIndex >= 0),
+    JSON.stringify(actual),
+  );
+  const [located, unlocated, errored] = results;
+  assert(
+    "sarif - locations and messages",
+    JSON.stringify(located.locations[0].physicalLocation) === JSON.stringify({
+      artifactLocation: {uri: REPORT.url},
+      region: {startLine: 23, startColumn: 11, snippet: {text: `<amp-img src="a.jpg">`}},
+    }) &&
+      JSON.stringify(located.locations[0].logicalLocations) ===
+        JSON.stringify([{fullyQualifiedName: "amp-story-page#p1 > amp-img", kind: "element"}]) &&
+      unlocated.locations[0].physicalLocation.region.startLine === 1 &&
+      unlocated.message.text === "expected [at most 15s], actual [20s]" &&
+      errored.message.text === "couldn't check XHR [https://example.com/bookend.json]: timed out (ETIMEDOUT)",
+    JSON.stringify(results),
+  );
+  const rules = log.runs[0].tool.driver.rules as any[];
+  assert(
+    "sarif - every rule is described",
+    rules.length === RULES.length && rules[ruleIndex("ampimg")].id === "ampimg" &&
+      rules[ruleIndex("ampimg")].defaultConfiguration.level === "error",
+    JSON.stringify(rules[ruleIndex("ampimg")]),
+  );
+}
+
+function testJunit() {
+  const xml = junit(REPORT, RULES);
+  const escaped = "&#60;amp-img src=a.jpg&#62; is 2x the size of &#34;a.jpg&#34; &#38; friends";
+  const timedOut = "couldn&#39;t check XHR [https://example.com/bookend.json]: timed out";
+  const lines = xml.split("\n");
+  assert(
+    "junit - counts of failures, errors and skipped rules",
+    lines[2] === `  <testsuite name="${REPORT.url}" tests="6" failures="1" errors="1" skipped="1">`,
+    lines[2],
+  );
+  assert(
+    "junit - a <failure>, <error> or <skipped> for each finding, with the message escaped",
+    lines.indexOf(`      <failure type="FAIL" message="${escaped}">${escaped}</failure>`) !== -1 &&
+      lines.indexOf(`      <error type="ETIMEDOUT" message="${timedOut}">${timedOut}</error>`) !== -1 &&
+      lines.indexOf(`      <skipped message="offline"/>`) !== -1 &&
+      lines.indexOf(`      <system-out>WARN: expected [at most 15s], actual [20s]</system-out>`) !== -1,
+    xml,
+  );
+}
+
+function testTap() {
+  const lines = tap(REPORT, RULES).split("\n");
+  assert(
+    "tap - plan, and a test (with a directive) per rule",
+    JSON.stringify(lines.slice(0, 3)) === JSON.stringify(["TAP version 13", `# ${REPORT.url}`, "1..6"]) &&
+      JSON.stringify(lines.filter(l => /^(not )?ok/.test(l))) === JSON.stringify([
+        "not ok 1 - ampimg # FAIL",
+        "ok 2 - ampstory # PASS",
+        "ok 3 - bookendcache # ERROR",
+        "ok 4 - contrast # INFO",
+        "ok 5 - corscache # SKIP offline",
+        "ok 6 - videoduration # WARN",
+      ]),
+    lines.join("\n"),
+  );
+}
+
+function testBatchTap() {
+  const clean: LintReport = {
+    findings: [],
+    summary: {ampstory: {findings: 0, status: "PASS"}},
+    url: "https://example.com/ok.html",
+  };
+  const batch = {
+    errors: [{message: "couldn't load [https://example.com/404.html]: Not Found", url: "https://example.com/404.html"}],
+    reports: [REPORT, clean],
+    totals: {},
+  };
+  const lines = BATCH_REPORTERS.tap(batch, RULES).split("\n");
+  assert(
+    "tap (batch) - a test per URL, with a subtest per rule, and the URLs that couldn't be loaded",
+    JSON.stringify(lines.filter(l => /^(TAP|1\.\.|(not )?ok|    (# Subtest|1\.\.|ok 2))/.test(l))) === JSON.stringify([
+      "TAP version 13",
+      "1..3",
+      `    # Subtest: ${REPORT.url}`,
+      "    1..6",
+      "    ok 2 - ampstory # PASS",
+      `not ok 1 - ${REPORT.url}`,
+      "    # Subtest: https://example.com/ok.html",
+      "    1..1",
+      "ok 2 - https://example.com/ok.html",
+      "not ok 3 - https://example.com/404.html",
+    ]) && lines.indexOf(`  message: "couldn't load [https://example.com/404.html]: Not Found"`) !== -1 &&
+      lines.indexOf("          message: \"offline\"") !== -1,
+    lines.join("\n"),
+  );
+}
+
+function testText() {
+  // (Without the colors used if stdout is a terminal.)
+  const lines = text(REPORT, RULES).replace(/\x1b\[\d+m/g, "").split("\n");
+  assert(
+    "text - findings, locations and counts",
+    lines[0] === REPORT.url &&
+      lines[1] === `  FAIL     ampimg  <amp-img src=a.jpg> is 2x the size of "a.jpg" & friends` &&
+      lines[2] === "           at 23:11 amp-story-page#p1 > amp-img" &&
+      lines[3] === "  WARN     videoduration  expected [at most 15s], actual [20s]" &&
+      lines[lines.length - 1] === "  1 FAIL, 1 ERROR, 1 WARN, 1 INFO, 1 SKIPPED (6 rules)",
+    lines.join("\n"),
+  );
+}
+
+function testExitCode() {
+  const warnOnly = Object.assign({}, REPORT, {findings: REPORT.findings.filter(f => f.status !== "FAIL")});
+  const clean = Object.assign({}, REPORT, {findings: []});
+  const errorOnly = Object.assign({}, REPORT, {findings: REPORT.findings.filter(f => f.status === "ERROR")});
+  const codes = [
+    exitCode([REPORT]),
+    exitCode([warnOnly]),
+    exitCode([warnOnly], "WARN"),
+    exitCode([clean], "WARN"),
+    exitCode([clean, REPORT], "FAIL"),
+    exitCode([clean], "FAIL", 1),
+    exitCode([errorOnly]),
+    exitCode([errorOnly], "ERROR"),
+    exitCode([errorOnly], "WARN"),
+  ];
+  assert(
+    "exitCode - 1 if there are findings at least as severe as --fail-on, 2 if a URL couldn't be linted",
+    JSON.stringify(codes) === JSON.stringify([1, 0, 1, 0, 1, 2, 0, 1, 1]),
+    JSON.stringify(codes),
+  );
+}
+
+testSarif();
+testJunit();
+testTap();
+testBatchTap();
+testText();
+testExitCode();
+plan();
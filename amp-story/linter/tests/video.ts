@@ -0,0 +1,125 @@
+import {dashErrors, hlsErrors, probeVideo} from "../video";
+import {assert, plan} from "./helpers";
+
+/** JSON with sorted (top-level) keys, for comparing objects. */
+function sorted(o: object|undefined) {
+  return JSON.stringify(o, Object.keys(o || {}).sort());
+}
+
+function uint32(...ns: number[]) {
+  const buf = Buffer.alloc(4 * ns.length);
+  ns.forEach((n, i) => buf.writeUInt32BE(n, 4 * i));
+  return buf;
+}
+
+function box(type: string, ...content: Buffer[]) {
+  const body = Buffer.concat(content);
+  return Buffer.concat([uint32(8 + body.length), Buffer.from(type, "latin1"), body]);
+}
+
+function trak(handler: string, codec: string, width = 0, height = 0) {
+  // tkhd (version 0): flags, times, track id, reserved, duration, reserved,
+  // layer etc., matrix, width, height
+  const tkhd = box("tkhd", Buffer.alloc(76), uint32(width * 0x10000, height * 0x10000));
+  const hdlr = box("hdlr", uint32(0, 0), Buffer.from(handler, "latin1"), Buffer.alloc(12));
+  const stsd = box("stsd", uint32(0, 1), box(codec, Buffer.alloc(8)));
+  return box("trak", tkhd, box("mdia", hdlr, box("minf", box("stbl", stsd))));
+}
+
+function mp4(moovFirst: boolean) {
+  const ftyp = box("ftyp", Buffer.from("isom", "latin1"), uint32(512));
+  // mvhd (version 0): flags, creation, modification, timescale, duration
+  const mvhd = box("mvhd", uint32(0, 0, 0, 1000, 12500), Buffer.alloc(80));
+  const moov = box("moov", mvhd, trak("vide", "avc1", 720, 1280), trak("soun", "mp4a"));
+  const mdat = box("mdat", Buffer.alloc(100));
+  return Buffer.concat(moovFirst ? [ftyp, moov, mdat] : [ftyp, mdat, moov]);
+}
+
+/** An EBML element with a one byte size. */
+function ebml(id: number[], ...content: Buffer[]) {
+  const body = Buffer.concat(content);
+  return Buffer.concat([Buffer.from(id), Buffer.from([0x80 + body.length]), body]);
+}
+
+function webm() {
+  const header = ebml([0x1A, 0x45, 0xDF, 0xA3], ebml([0x42, 0x82], Buffer.from("webm", "latin1")));
+  const duration = Buffer.alloc(8);
+  duration.writeDoubleBE(30000, 0);
+  const info = ebml([0x15, 0x49, 0xA9, 0x66], ebml([0x2A, 0xD7, 0xB1], Buffer.from([0x0F, 0x42, 0x40])),
+    ebml([0x44, 0x89], duration));
+  const tracks = ebml([0x16, 0x54, 0xAE, 0x6B],
+    ebml([0xAE], ebml([0x86], Buffer.from("V_VP9", "latin1")),
+      ebml([0xE0], ebml([0xB0], Buffer.from([0x07, 0x80])), ebml([0xBA], Buffer.from([0x04, 0x38])))),
+    ebml([0xAE], ebml([0x86], Buffer.from("A_OPUS", "latin1"))));
+  // Segment of unknown size (as written by live encoders), then a cluster
+  const segment = Buffer.concat([Buffer.from([0x18, 0x53, 0x80, 0x67, 0x01, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]),
+    info, tracks, Buffer.from([0x1F, 0x43, 0xB6, 0x75, 0x81, 0x00])]);
+  return Buffer.concat([header, segment]);
+}
+
+function testMp4() {
+  const info = probeVideo(mp4(true));
+  const expected = {
+    codecs: ["avc1", "mp4a"], container: "mp4", duration: 12.5, faststart: true, height: 1280, width: 720,
+  };
+  assert("probeVideo - MP4", sorted(info) === sorted(expected), JSON.stringify(info));
+  const notFaststart = probeVideo(mp4(false).slice(0, 100));
+  assert(
+    "probeVideo - MP4 with moov after mdat",
+    !!notFaststart && notFaststart.faststart === false && notFaststart.codecs.length === 0,
+    JSON.stringify(notFaststart),
+  );
+}
+
+function testWebm() {
+  const info = probeVideo(webm());
+  const expected = {codecs: ["V_VP9", "A_OPUS"], container: "webm", duration: 30, height: 1080, width: 1920};
+  assert("probeVideo - WebM", sorted(info) === sorted(expected), JSON.stringify(info));
+}
+
+function testUnknown() {
+  const info = probeVideo(Buffer.from("<!doctype html>"));
+  assert("probeVideo - unrecognized format", info === undefined, JSON.stringify(info));
+}
+
+function testHls() {
+  const master = [
+    "#EXTM3U",
+    "#EXT-X-STREAM-INF:BANDWIDTH=1280000,RESOLUTION=720x1280",
+    "720.m3u8",
+    "#EXT-X-STREAM-INF:RESOLUTION=480x854",
+    "#EXT-X-STREAM-INF:BANDWIDTH=640000",
+    "480.m3u8",
+  ].join("\n");
+  const media = ["#EXTM3U", "#EXT-X-TARGETDURATION:10", "#EXTINF:9.9,", "0.ts", "#EXT-X-ENDLIST"].join("\n");
+  const errors = hlsErrors(master);
+  assert(
+    "hlsErrors - master playlist",
+    errors.length === 2 && hlsErrors(media).length === 0 && hlsErrors("<html>").length === 1,
+    JSON.stringify(errors),
+  );
+}
+
+function testDash() {
+  const mpd = (bandwidth: string) => [
+    `<?xml version="1.0"?>`,
+    `<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" profiles="urn:mpeg:dash:profile:isoff-on-demand:2011">`,
+    `<Period><AdaptationSet mimeType="video/mp4">`,
+    `<Representation id="720" ${bandwidth}><BaseURL>720.mp4</BaseURL></Representation>`,
+    `</AdaptationSet></Period>`,
+    `</MPD>`,
+  ].join("\n");
+  const errors = dashErrors(mpd(""));
+  assert(
+    "dashErrors - manifest",
+    errors.length === 1 && dashErrors(mpd(`bandwidth="1280000"`)).length === 0 && dashErrors("<html/>").length === 1,
+    JSON.stringify(errors),
+  );
+}
+
+testMp4();
+testWebm();
+testUnknown();
+testHls();
+testDash();
+plan();
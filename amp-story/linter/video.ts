@@ -0,0 +1,275 @@
+import * as cheerio from "cheerio";
+
+export interface VideoInfo {
+  /** "mp4" (ISO BMFF), "webm" or "matroska". */
+  readonly container: string;
+  /**
+   * Sample entry types for MP4 (e.g. avc1, mp4a), or codec ids for WebM and
+   * Matroska (e.g. V_VP9, A_OPUS).
+   */
+  readonly codecs: string[];
+  /** In seconds. */
+  readonly duration?: number;
+  readonly width?: number;
+  readonly height?: number;
+  /**
+   * For MP4, whether the metadata (moov box) comes before the media data, so
+   * that playback can start before the whole file has been downloaded.
+   */
+  readonly faststart?: boolean;
+}
+
+interface Box {
+  readonly type: string;
+  /** Offset of the box's content (after the header). */
+  readonly start: number;
+  /** Offset of the end of the box; may be beyond the end of the buffer. */
+  readonly end: number;
+}
+
+/**
+ * Returns the (ISO BMFF) boxes between `start` and `end`, stopping at the end
+ * of `buf`. The last box may be truncated.
+ */
+function boxes(buf: Buffer, start: number, end: number): Box[] {
+  const res: Box[] = [];
+  let i = start;
+  while (i + 8 <= Math.min(end, buf.length)) {
+    let size = buf.readUInt32BE(i);
+    let header = 8;
+    if (size === 1) {
+      if (i + 16 > buf.length) {
+        break;
+      }
+      size = buf.readUInt32BE(i + 8) * 0x100000000 + buf.readUInt32BE(i + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - i;
+    }
+    if (size < header) {
+      break; // corrupt
+    }
+    res.push({type: buf.toString("latin1", i + 4, i + 8), start: i + header, end: i + size});
+    i += size;
+  }
+  return res;
+}
+
+function child(buf: Buffer, box: Box|undefined, type: string): Box|undefined {
+  return box ? boxes(buf, box.start, box.end).filter(b => b.type === type)[0] : undefined;
+}
+
+function probeMp4(buf: Buffer): VideoInfo {
+  const top = boxes(buf, 0, Infinity);
+  const types = top.map(b => b.type);
+  const moov = top.filter(b => b.type === "moov" && b.end <= buf.length)[0];
+  const faststart = types.indexOf("mdat") === -1 || (types.indexOf("moov") !== -1 &&
+    types.indexOf("moov") < types.indexOf("mdat"));
+  if (!moov) {
+    return {codecs: [], container: "mp4", faststart};
+  }
+  const info: {codecs: string[], duration?: number, width?: number, height?: number} = {codecs: []};
+  const mvhd = child(buf, moov, "mvhd");
+  if (mvhd) {
+    const v1 = buf[mvhd.start] === 1;
+    const timescale = buf.readUInt32BE(mvhd.start + (v1 ? 20 : 12));
+    const duration = v1 ?
+      buf.readUInt32BE(mvhd.start + 24) * 0x100000000 + buf.readUInt32BE(mvhd.start + 28) :
+      buf.readUInt32BE(mvhd.start + 16);
+    info.duration = timescale ? duration / timescale : undefined;
+  }
+  boxes(buf, moov.start, moov.end).filter(b => b.type === "trak").forEach(trak => {
+    const mdia = child(buf, trak, "mdia");
+    const hdlr = child(buf, mdia, "hdlr");
+    const stsd = child(buf, child(buf, child(buf, mdia, "minf"), "stbl"), "stsd");
+    if (stsd && stsd.start + 16 <= buf.length) {
+      info.codecs.push(buf.toString("latin1", stsd.start + 12, stsd.start + 16));
+    }
+    const tkhd = child(buf, trak, "tkhd");
+    if (hdlr && tkhd && buf.toString("latin1", hdlr.start + 8, hdlr.start + 12) === "vide") {
+      // width and height are 16.16 fixed point, at the end of the box
+      info.width = buf.readUInt32BE(tkhd.end - 8) / 0x10000;
+      info.height = buf.readUInt32BE(tkhd.end - 4) / 0x10000;
+    }
+  });
+  return Object.assign({container: "mp4", faststart}, info);
+}
+
+const EBML = 0x1A45DFA3;
+const EBML_DOCTYPE = 0x4282;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549A966;
+const TIMECODE_SCALE = 0x2AD7B1;
+const DURATION = 0x4489;
+const TRACKS = 0x1654AE6B;
+const TRACK_ENTRY = 0xAE;
+const CODEC_ID = 0x86;
+const VIDEO = 0xE0;
+const PIXEL_WIDTH = 0xB0;
+const PIXEL_HEIGHT = 0xBA;
+const CLUSTER = 0x1F43B675;
+
+// Elements with children that are needed.
+const EBML_MASTER = [EBML, SEGMENT, INFO, TRACKS, TRACK_ENTRY, VIDEO];
+
+/**
+ * Reads an EBML variable-length integer at `i`; for element ids, the length
+ * marker is kept. Returns the value and its length in bytes; the value is -1
+ * for sizes that are "unknown" (all ones).
+ */
+function vint(buf: Buffer, i: number, id: boolean): {value: number, length: number}|undefined {
+  if (i >= buf.length || buf[i] === 0) {
+    return undefined;
+  }
+  const length = 8 - Math.floor(Math.log2(buf[i]));
+  if (i + length > buf.length) {
+    return undefined;
+  }
+  const mask = Math.pow(2, 8 - length); // the bits after the length marker
+  let value = id ? buf[i] : buf[i] % mask;
+  let ones = value === mask - 1;
+  for (let j = 1; j < length; j++) {
+    value = value * 256 + buf[i + j];
+    ones = ones && buf[i + j] === 0xFF;
+  }
+  return {length, value: !id && ones ? -1 : value};
+}
+
+function readUInt(buf: Buffer, start: number, end: number) {
+  let n = 0;
+  for (let i = start; i < end; i++) {
+    n = n * 256 + buf[i];
+  }
+  return n;
+}
+
+function probeEbml(buf: Buffer): VideoInfo {
+  const info: {
+    doctype?: string, codecs: string[], duration?: number, scale: number, width?: number, height?: number,
+  } = {codecs: [], scale: 1000000};
+  const walk = (start: number, end: number) => {
+    let i = start;
+    while (i < Math.min(end, buf.length)) {
+      const id = vint(buf, i, true);
+      const size = id && vint(buf, i + id.length, false);
+      if (!id || !size || id.value === CLUSTER) {
+        return false;
+      }
+      const dataStart = i + id.length + size.length;
+      const dataEnd = size.value === -1 ? end : dataStart + size.value;
+      if (EBML_MASTER.indexOf(id.value) !== -1) {
+        if (!walk(dataStart, dataEnd)) {
+          return false;
+        }
+      } else if (dataEnd <= buf.length) {
+        if (id.value === EBML_DOCTYPE) {
+          info.doctype = buf.toString("latin1", dataStart, dataEnd).replace(/\0+$/, "");
+        } else if (id.value === TIMECODE_SCALE) {
+          info.scale = readUInt(buf, dataStart, dataEnd);
+        } else if (id.value === DURATION) {
+          info.duration = size.value === 4 ? buf.readFloatBE(dataStart) : buf.readDoubleBE(dataStart);
+        } else if (id.value === CODEC_ID) {
+          info.codecs.push(buf.toString("latin1", dataStart, dataEnd).replace(/\0+$/, ""));
+        } else if (id.value === PIXEL_WIDTH) {
+          info.width = readUInt(buf, dataStart, dataEnd);
+        } else if (id.value === PIXEL_HEIGHT) {
+          info.height = readUInt(buf, dataStart, dataEnd);
+        }
+      }
+      i = dataEnd;
+    }
+    return true;
+  };
+  walk(0, Infinity);
+  return {
+    codecs: info.codecs,
+    container: info.doctype === "webm" ? "webm" : "matroska",
+    duration: info.duration === undefined ? undefined : info.duration * info.scale / 1e9,
+    height: info.height,
+    width: info.width,
+  };
+}
+
+/**
+ * Determines the container, codecs, duration and resolution of a video from
+ * (the start of) the file. Returns `undefined` if the format isn't
+ * recognized; properties that aren't in `buf` (e.g. because it's truncated)
+ * are left undefined.
+ *
+ * @param buf
+ */
+export function probeVideo(buf: Buffer): VideoInfo|undefined {
+  if (buf.length >= 8 && buf.toString("latin1", 4, 8) === "ftyp") {
+    return probeMp4(buf);
+  } else if (buf.length >= 4 && buf.readUInt32BE(0) === EBML) {
+    return probeEbml(buf);
+  } else {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the problems with an HLS playlist (master or media), or an empty
+ * array if it's well-formed.
+ *
+ * https://tools.ietf.org/html/rfc8216
+ *
+ * @param text
+ */
+export function hlsErrors(text: string): string[] {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l);
+  if (lines[0] !== "#EXTM3U") {
+    return ["doesn't start with #EXTM3U"];
+  }
+  const errors: string[] = [];
+  const uris = lines.filter(l => !l.startsWith("#"));
+  const streams = lines.map((l, i) => ({i, l})).filter(({l}) => l.startsWith("#EXT-X-STREAM-INF"));
+  if (streams.length > 0) {
+    streams.forEach(({i, l}) => {
+      if (!l.match(/[:,]BANDWIDTH=\d+/)) {
+        errors.push(`#EXT-X-STREAM-INF on line ${i + 1} has no BANDWIDTH`);
+      }
+      if (!lines[i + 1] || lines[i + 1].startsWith("#")) {
+        errors.push(`#EXT-X-STREAM-INF on line ${i + 1} isn't followed by a URI`);
+      }
+    });
+  } else if (lines.some(l => l.startsWith("#EXTINF"))) {
+    if (!lines.some(l => l.startsWith("#EXT-X-TARGETDURATION:"))) {
+      errors.push("media playlist has no #EXT-X-TARGETDURATION");
+    }
+    if (uris.length === 0) {
+      errors.push("media playlist has no segments");
+    }
+  } else {
+    errors.push("has neither #EXT-X-STREAM-INF (variant streams) nor #EXTINF (segments)");
+  }
+  return errors;
+}
+
+/**
+ * Returns the problems with a DASH manifest (MPD), or an empty array if it's
+ * well-formed.
+ *
+ * @param text
+ */
+export function dashErrors(text: string): string[] {
+  const $ = cheerio.load(text, {xmlMode: true});
+  const mpd = $.root().children("MPD");
+  if (mpd.length !== 1) {
+    return ["root element isn't <MPD>"];
+  }
+  const errors: string[] = [];
+  if (!mpd.attr("profiles")) {
+    errors.push("<MPD> has no profiles");
+  }
+  const representations = $("MPD > Period > AdaptationSet > Representation");
+  if (representations.length === 0) {
+    errors.push("no <Period><AdaptationSet><Representation>");
+  }
+  representations.each((i, e) => {
+    if (!$(e).attr("bandwidth")) {
+      errors.push(`<Representation id=${$(e).attr("id")}> has no bandwidth`);
+    }
+  });
+  return errors;
+}